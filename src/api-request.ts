@@ -0,0 +1,15 @@
+/**
+ * API Request for Dynamics CRM Toolkit
+ *
+ * The shape of a Web API request, shared by the modules that build and send them
+ */
+
+/**
+ * A Web API request, built before it is sent so it can also be explained
+ */
+export interface ApiRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  url: string;
+  headers: Record<string, string>;
+  body?: Record<string, any>;
+}
@@ -0,0 +1,146 @@
+/**
+ * Connection Manager for Dynamics CRM Toolkit
+ *
+ * Keeps the organizations the toolkit has connected to, with a name, colour
+ * and environment type for each, and which one queries run against
+ */
+
+export type EnvironmentType = 'Development' | 'Test' | 'UAT' | 'Production';
+
+export interface Connection {
+  id: string;
+  name: string;
+  // Base URL, such as https://contoso.crm.dynamics.com
+  orgUrl: string;
+  color: string;
+  environmentType: EnvironmentType;
+  // Only SELECT statements may run
+  readOnly?: boolean;
+}
+
+export const ENVIRONMENT_TYPES: EnvironmentType[] = ['Development', 'Test', 'UAT', 'Production'];
+
+// Colours new connections start with
+export const ENVIRONMENT_COLORS: Record<EnvironmentType, string> = {
+  Development: '#107c10',
+  Test: '#0078d4',
+  UAT: '#ca5010',
+  Production: '#d13438'
+};
+
+const CONNECTIONS_KEY = 'connections';
+const ACTIVE_KEY = 'activeConnectionId';
+
+// Written by earlier versions, which only knew the last detected organization
+const LEGACY_ORG_URL_KEY = 'orgUrl';
+
+/**
+ * Reduce a page URL to the organization's base URL
+ */
+export function getOrgUrl(url: string): string {
+  const urlObj = new URL(url);
+  return `${urlObj.protocol}//${urlObj.hostname}`;
+}
+
+/**
+ * Show what a production or read-only connection allows in its banner,
+ * or hide the banner for any other connection
+ */
+export function showEnvironmentBanner(banner: HTMLElement, connection?: Connection): void {
+  const production = connection?.environmentType === 'Production';
+  const readOnly = !!connection?.readOnly;
+
+  if (production && readOnly) {
+    banner.textContent = `Production (read-only): ${connection!.name}. Only SELECT statements run here.`;
+  } else if (production) {
+    banner.textContent = `Production: ${connection!.name}. Changes affect live data and must be confirmed twice.`;
+  } else if (readOnly) {
+    banner.textContent = `Read-only: ${connection!.name}. Only SELECT statements run here.`;
+  }
+
+  banner.classList.toggle('production', production);
+  banner.classList.toggle('read-only', readOnly && !production);
+  banner.classList.toggle('hidden', !production && !readOnly);
+}
+
+export class ConnectionManager {
+  async getConnections(): Promise<Connection[]> {
+    const storage = await chrome.storage.local.get([CONNECTIONS_KEY]);
+    return storage[CONNECTIONS_KEY] || [];
+  }
+
+  async getConnection(id: string): Promise<Connection | undefined> {
+    return (await this.getConnections()).find(connection => connection.id === id);
+  }
+
+  async findByOrgUrl(orgUrl: string): Promise<Connection | undefined> {
+    return (await this.getConnections()).find(connection => connection.orgUrl === orgUrl);
+  }
+
+  /**
+   * Add a connection for an organization seen in a tab, unless there is one.
+   * The first connection becomes the active one; later ones do not, so
+   * opening another org in a tab never changes where queries run.
+   */
+  async register(url: string): Promise<Connection> {
+    const orgUrl = getOrgUrl(url);
+    const existing = await this.findByOrgUrl(orgUrl);
+    if (existing) {
+      return existing;
+    }
+
+    const connection: Connection = {
+      id: crypto.randomUUID(),
+      name: new URL(orgUrl).hostname.split('.')[0],
+      orgUrl,
+      color: ENVIRONMENT_COLORS.Development,
+      environmentType: 'Development'
+    };
+
+    const connections = await this.getConnections();
+    await this.saveAll([...connections, connection]);
+    if (connections.length === 0) {
+      await this.setActive(connection.id);
+    }
+
+    return connection;
+  }
+
+  async save(connection: Connection): Promise<void> {
+    const connections = await this.getConnections();
+    await this.saveAll(connections.some(existing => existing.id === connection.id)
+      ? connections.map(existing => existing.id === connection.id ? connection : existing)
+      : [...connections, connection]);
+  }
+
+  async remove(id: string): Promise<void> {
+    const connections = await this.getConnections();
+    await this.saveAll(connections.filter(connection => connection.id !== id));
+  }
+
+  /**
+   * Get the connection queries run against, falling back to the first one
+   */
+  async getActive(): Promise<Connection | undefined> {
+    const storage = await chrome.storage.local.get([ACTIVE_KEY, LEGACY_ORG_URL_KEY]);
+    const connections = await this.getConnections();
+
+    if (connections.length === 0 && storage[LEGACY_ORG_URL_KEY]) {
+      const connection = await this.register(storage[LEGACY_ORG_URL_KEY]);
+      await chrome.storage.local.remove(LEGACY_ORG_URL_KEY);
+      return connection;
+    }
+
+    return connections.find(connection => connection.id === storage[ACTIVE_KEY]) || connections[0];
+  }
+
+  async setActive(id: string): Promise<void> {
+    await chrome.storage.local.set({ [ACTIVE_KEY]: id });
+  }
+
+  private async saveAll(connections: Connection[]): Promise<void> {
+    await chrome.storage.local.set({ [CONNECTIONS_KEY]: connections });
+  }
+}
+
+export default new ConnectionManager();
@@ -1,105 +1,18 @@
 /**
  * Content script for Dynamics CRM SQL Query Extension
  * 
- * Runs in the context of the Dynamics CRM page and interacts with the Dynamics Web API
+ * Runs in the context of the Dynamics CRM page and relays Web API requests for
+ * the extension pages, which build and execute them through DynamicsApi
  */
 
+import { relayRequest } from './web-api-transport';
+
 // Check if we're on a Dynamics CRM page
 function isDynamicsCrmPage() {
   return window.location.hostname.includes('dynamics.com') || 
          window.location.hostname.includes('crm.dynamics.com');
 }
 
-// Get the client URL for the current Dynamics instance
-function getClientUrl() {
-  return window.location.origin;
-}
-
-// Execute a query against the Dynamics Web API - more robust
-async function executeQuery(parsedQuery) {
-  try {
-    console.log('Executing query:', parsedQuery);
-    
-    if (parsedQuery.operation !== 'SELECT') {
-      throw new Error('Only SELECT operations are currently supported');
-    }
-    
-    console.log('Building URL for query');
-    const url = buildRetrieveUrl(parsedQuery);
-    console.log('Query URL:', url);
-    
-    console.log('Retrieving records...');
-    const records = await retrieveRecords(url);
-    console.log('Retrieved records:', records);
-    
-    return records;
-  } catch (error) {
-    console.error('Error executing query:', error);
-    throw error;
-  }
-}
-
-// Build the URL for a retrieve operation
-function buildRetrieveUrl(query) {
-  const { entity, fields, filter, orderBy, limit } = query;
-  
-  // Build the OData URL
-  let url = `${getClientUrl()}/api/data/v9.2/${entity}`;
-  
-  // Add query parameters
-  const params = new URLSearchParams();
-  
-  // Select fields
-  if (fields && fields.length > 0) {
-    params.append('$select', fields.join(','));
-  }
-  
-  // Filter
-  if (filter) {
-    params.append('$filter', filter);
-  }
-  
-  // Order by
-  if (orderBy && orderBy.length > 0) {
-    const orderByStr = orderBy
-      .map(item => `${item.field} ${item.direction}`)
-      .join(',');
-    params.append('$orderby', orderByStr);
-  }
-  
-  // Top (limit)
-  if (limit) {
-    params.append('$top', limit.toString());
-  }
-  
-  // Append parameters to URL
-  const queryString = params.toString();
-  if (queryString) {
-    url += `?${queryString}`;
-  }
-  
-  return url;
-}
-
-// Retrieve records from Dynamics Web API
-async function retrieveRecords(url) {
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Accept': 'application/json',
-      'OData-MaxVersion': '4.0',
-      'OData-Version': '4.0'
-    }
-  });
-  
-  if (!response.ok) {
-    throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
-  }
-  
-  const result = await response.json();
-  return result.value || [];
-}
-
 // Check if we're on a record form - more robust detection
 function isRecordForm() {
   // Try multiple detection methods
@@ -200,7 +113,7 @@ function initialize() {
   }
 }
 
-// Listen for messages from the popup
+// Listen for messages from the popup and the extension pages
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   // Respond to ping to indicate content script is loaded
   if (message.action === 'ping') {
@@ -208,19 +121,11 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
   
-  // Execute a query
-  if (message.action === 'executeQuery') {
-    console.log('Executing query:', message.parsedQuery);
-    
-    executeQuery(message.parsedQuery)
-      .then(result => {
-        console.log('Query result:', result);
-        sendResponse({ result });
-      })
-      .catch(error => {
-        console.error('Query error:', error);
-        sendResponse({ error: error.message });
-      });
+  // Send a Web API request from the page, for ContentScriptTransport
+  if (message.action === 'webApiRequest') {
+    relayRequest(message.request)
+      .then(response => sendResponse({ response }))
+      .catch(error => sendResponse({ error: error.message }));
     
     return true; // Indicate async response
   }
@@ -256,47 +161,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     
     return true;
   }
-  
-  // Fetch record data
-  if (message.action === 'fetchRecordData') {
-    const { entityName, recordId } = message;
-    
-    fetchRecordData(entityName, recordId)
-      .then(record => {
-        sendResponse({ record });
-      })
-      .catch(error => {
-        sendResponse({ error: error.message });
-      });
-    
-    return true; // Indicate async response
-  }
 });
 
-// Add this function to content.js
-async function fetchRecordData(entityName, recordId) {
-  try {
-    const url = `${getClientUrl()}/api/data/v9.2/${entityName}(${recordId})?$select=*`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'OData-MaxVersion': '4.0',
-        'OData-Version': '4.0'
-      }
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
-    }
-    
-    return await response.json();
-  } catch (error) {
-    console.error('Error fetching record data:', error);
-    throw error;
-  }
-}
-
 // Initialize the content script
 initialize(); 
\ No newline at end of file
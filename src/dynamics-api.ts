@@ -5,62 +5,244 @@
  */
 
 import { ParsedQuery } from './sql-parser';
+import odataFilterBuilder, { ColumnTypeResolver } from './odata-filter';
+import fetchXmlBuilder, { FetchXmlPaging } from './fetchxml-builder';
+import expressionEvaluator from './expression-evaluator';
+import metadataService, {
+  EntityMetadata,
+  AttributeMetadata,
+  AttributeType,
+  LookupRelationship,
+  RelationshipMetadata,
+  isLookupAttribute
+} from './metadata-service';
+import queryValidator, { QueryValidationError } from './query-validator';
+import undoJournal, { JournalEntry } from './undo-journal';
+import odataBatchBuilder from './odata-batch';
+import { ApiRequest } from './api-request';
+import webApiClient, { WebApiError } from './web-api-client';
+import { DirectTransport, NoticeListener, WebApiTransport } from './web-api-transport';
+import connectionManager from './connection-manager';
 
 export interface QueryResult {
   data: any[];
+  // Organization the query ran against
+  orgUrl: string;
+  // How many records match a SELECT, regardless of LIMIT
   totalCount?: number;
+  // Dataverse stops counting at 5000, so the total is at least totalCount
+  totalCountExceeded?: boolean;
   executionTime: number;
+  // The records an UPDATE or DELETE matched
+  preview?: MutationPreview;
+  // The UPDATE or DELETE was not confirmed, so nothing changed
+  cancelled?: boolean;
 }
 
+/**
+ * The records an UPDATE or DELETE would change, shown before it runs
+ */
+export interface MutationPreview {
+  operation: 'UPDATE' | 'DELETE';
+  entity: string;
+  matchedCount: number;
+  // The first matched records, with the current values of the columns an UPDATE sets
+  sample: any[];
+}
+
+export interface MutationProgress {
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * What happened to one record of an UPDATE, DELETE or revert
+ */
+export interface RecordOutcome {
+  id: string;
+  name?: string;
+  // Rolled back records were in a batch where another change failed
+  status: 'Succeeded' | 'Failed' | 'Rolled back';
+  error?: string;
+}
+
+export interface ChangeOptions {
+  // Asked once more before anything changes in a production environment; required there
+  confirmProductionChange?: (summary: string) => Promise<boolean>;
+}
+
+export interface BatchOptions extends ChangeOptions {
+  // $batch requests sent at once
+  concurrency?: number;
+  // Called whenever a $batch request completes
+  onProgress?: (progress: MutationProgress) => void;
+}
+
+export interface ExecuteOptions extends BatchOptions {
+  // Run SELECT queries through FetchXML instead of OData
+  useFetchXml?: boolean;
+  // Called with each page of SELECT results as it arrives
+  onRows?: (rows: any[]) => void;
+  // Stop UPDATE and DELETE after looking up the records they match
+  dryRun?: boolean;
+  // Asked before an UPDATE or DELETE changes anything; required unless dryRun is set
+  confirmMutation?: (preview: MutationPreview) => Promise<boolean>;
+}
+
+export interface ExplainStep {
+  description: string;
+  request: ApiRequest;
+}
+
+/**
+ * The record a lookup points to
+ */
+export interface RecordReference {
+  entity: string;
+  id: string;
+  name?: string;
+}
+
+export interface RelatedRecords {
+  records: RecordReference[];
+  // Like query counts, stops at 5000
+  totalCount: number;
+  totalCountExceeded: boolean;
+}
+
+/**
+ * Raised when the connection's safety settings do not allow a statement
+ */
+export class EnvironmentPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnvironmentPolicyError';
+  }
+}
+
+// Largest page the Web API returns per request, through OData or FetchXML
+const PAGE_SIZE = 5000;
+
+// Matched records shown before an UPDATE or DELETE runs
+const PREVIEW_SAMPLE_SIZE = 10;
+
+// Changes per $batch request; each batch is one changeset, applied all or nothing
+const BATCH_SIZE = 100;
+
+// Few enough parallel requests to stay clear of the service protection limits
+const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const ODATA_HEADERS: Record<string, string> = {
+  'Accept': 'application/json',
+  'OData-MaxVersion': '4.0',
+  'OData-Version': '4.0'
+};
+
+const ODATA_PAGING_PREFER = `odata.maxpagesize=${PAGE_SIZE}`;
+
+// Formatted values, lookup table names and FetchXML paging cookies
+const ALL_ANNOTATIONS_PREFER = 'odata.include-annotations="*"';
+
+// Records a lookup picker suggests at once
+const SEARCH_SIZE = 10;
+
+// Tells which navigation property and table each lookup value belongs to
+const LOOKUP_ANNOTATIONS_PREFER =
+  'odata.include-annotations="Microsoft.Dynamics.CRM.associatednavigationproperty,Microsoft.Dynamics.CRM.lookuplogicalname"';
+
+const BIND_SUFFIX = '@odata.bind';
+
+interface RetrieveResult {
+  records: any[];
+  totalCount?: number;
+  totalCountExceeded?: boolean;
+}
+
+// Columns that cannot be written back when a deleted record is created again
+const UNRESTORABLE_TYPES: AttributeType[] = ['CalendarRules', 'ManagedProperty', 'PartyList', 'Virtual'];
+
 export class DynamicsApi {
   private clientUrl: string | null = null;
   private apiVersion = '9.2';
   
   /**
-   * Initialize the API with the client URL
+   * Initialize the API with the client URL, and the transport every request
+   * (including metadata) is sent through
    */
-  public initialize(url: string): void {
+  public initialize(url: string, transport: WebApiTransport = new DirectTransport()): void {
     // Extract the base URL from the current Dynamics instance
     const urlObj = new URL(url);
     this.clientUrl = `${urlObj.protocol}//${urlObj.hostname}`;
+    
+    webApiClient.setTransport(transport);
+  }
+  
+  /**
+   * Show messages about slow or rerouted requests, such as throttling retries
+   */
+  public setNoticeListener(listener: NoticeListener): void {
+    webApiClient.setNoticeListener(listener);
   }
   
   /**
    * Execute a query against the Dynamics Web API
    */
-  public async executeQuery(parsedQuery: ParsedQuery): Promise<QueryResult> {
-    if (!this.clientUrl) {
-      throw new Error('Dynamics API not initialized. Please navigate to a Dynamics CRM instance first.');
-    }
+  public async executeQuery(parsedQuery: ParsedQuery, options: ExecuteOptions = {}): Promise<QueryResult> {
+    this.ensureInitialized();
     
     const startTime = performance.now();
     
     try {
-      switch (parsedQuery.operation) {
-        case 'SELECT':
+      // Checked before any request, so a read-only environment never sees a change
+      if (parsedQuery.operation !== 'SELECT') {
+        await this.checkWritable(parsedQuery.operation);
+      }
+      
+      const { query, useFetchXml } = await this.prepareQuery(parsedQuery, options);
+      
+      switch (query.operation) {
+        case 'SELECT': {
+          const retrieved = useFetchXml
+            ? await this.executeFetchXmlRetrieve(query, options.onRows)
+            : await this.executeRetrieve(query, options.onRows);
           return {
-            data: await this.executeRetrieve(parsedQuery),
+            data: retrieved.records,
+            totalCount: retrieved.totalCount,
+            totalCountExceeded: retrieved.totalCountExceeded,
+            orgUrl: this.clientUrl!,
             executionTime: performance.now() - startTime
           };
+        }
         case 'INSERT':
+          if (!(await this.confirmProductionChange(`INSERT INTO ${query.entity}`, options))) {
+            return {
+              data: [],
+              orgUrl: this.clientUrl!,
+              executionTime: performance.now() - startTime,
+              cancelled: true
+            };
+          }
           return {
-            data: [await this.executeCreate(parsedQuery)],
+            data: [await this.executeCreate(query)],
+            orgUrl: this.clientUrl!,
             executionTime: performance.now() - startTime
           };
         case 'UPDATE':
-          return {
-            data: [await this.executeUpdate(parsedQuery)],
-            executionTime: performance.now() - startTime
-          };
         case 'DELETE':
           return {
-            data: [await this.executeDelete(parsedQuery)],
+            ...await this.executeMutation(query, options),
+            orgUrl: this.clientUrl!,
             executionTime: performance.now() - startTime
           };
         default:
-          throw new Error(`Unsupported operation: ${parsedQuery.operation}`);
+          throw new Error(`Unsupported operation: ${query.operation}`);
       }
     } catch (error) {
+      // Validation and policy errors describe the query, and Web API errors carry their own details
+      if (error instanceof QueryValidationError || error instanceof EnvironmentPolicyError || error instanceof WebApiError) {
+        throw error;
+      }
       if (error instanceof Error) {
         throw new Error(`Dynamics API error: ${error.message}`);
       }
@@ -68,11 +250,416 @@ export class DynamicsApi {
     }
   }
   
-  private async executeRetrieve(query: ParsedQuery): Promise<any[]> {
-    const { entity, fields, filter, orderBy, limit } = query;
+  /**
+   * Describe the requests a query would send, without sending them.
+   * Table metadata may still be loaded to build the URLs.
+   */
+  public async explainQuery(parsedQuery: ParsedQuery, options: ExecuteOptions = {}): Promise<ExplainStep[]> {
+    this.ensureInitialized();
+    
+    const { query, useFetchXml } = await this.prepareQuery(parsedQuery, options);
+    
+    switch (query.operation) {
+      case 'SELECT':
+        return [await this.explainRetrieve(query, useFetchXml)];
+      case 'INSERT':
+        return [{ description: 'Create the record', request: await this.buildCreateRequest(query) }];
+      case 'UPDATE':
+      case 'DELETE': {
+        const { primaryIdAttribute } = await this.getEntity(query.entity);
+        const placeholder = `{${primaryIdAttribute}}`;
+        const mutation = query.operation === 'UPDATE'
+          ? await this.buildUpdateRequest(query.entity, placeholder, query.values || {})
+          : await this.buildDeleteRequest(query.entity, placeholder);
+        return [
+          {
+            description: `Retrieve the records to ${query.operation === 'UPDATE' ? 'update' : 'delete'}, ` +
+              'which are previewed and must be confirmed before anything changes',
+            request: await this.buildLookupRequest(query)
+          },
+          {
+            description: `${query.operation === 'UPDATE' ? 'Update' : 'Delete'} each retrieved record by ${primaryIdAttribute}, ` +
+              `sent in $batch requests of up to ${BATCH_SIZE} changes`,
+            request: mutation
+          }
+        ];
+      }
+      default:
+        throw new Error(`Unsupported operation: ${query.operation}`);
+    }
+  }
+  
+  /**
+   * Build the FetchXML a SELECT query runs as
+   */
+  public async buildFetchXml(parsedQuery: ParsedQuery): Promise<string> {
+    this.ensureInitialized();
+    
+    return this.compileFetchXml(await this.resolveQuery(parsedQuery));
+  }
+  
+  /**
+   * Retrieve every column of a single record, with formatted values, lookup
+   * table names and the @odata.etag it was read at
+   */
+  public async retrieveRecord(entity: string, id: string): Promise<any> {
+    this.ensureInitialized();
+    
+    return this.fetchJson({
+      method: 'GET',
+      url: `${await this.getEntitySetUrl(entity)}(${id.replace(/[{}]/g, '')})`,
+      headers: { ...ODATA_HEADERS, 'Prefer': ALL_ANNOTATIONS_PREFER }
+    });
+  }
+  
+  /**
+   * Save changed columns of a single record. Lookups are changed through their
+   * _name_value column, set to a RecordReference or null. Given the etag the
+   * record was read at, a record changed since then is not overwritten and
+   * the save fails with a 412 WebApiError.
+   */
+  public async updateRecord(
+    entity: string,
+    id: string,
+    changes: Record<string, any>,
+    etag?: string,
+    options: ChangeOptions = {}
+  ): Promise<void> {
+    this.ensureInitialized();
+    
+    await this.checkWritable('UPDATE');
+    const summary = `UPDATE ${Object.keys(changes).length} column(s) of ${entity} ${id}`;
+    if (!(await this.confirmProductionChange(summary, options))) {
+      throw new EnvironmentPolicyError('The change was not confirmed, nothing was changed');
+    }
+    
+    const request = await this.buildUpdateRequest(
+      entity,
+      id.replace(/[{}]/g, ''),
+      await this.getUpdateValues(entity, changes)
+    );
+    if (etag) {
+      request.headers['If-Match'] = etag;
+    }
+    
+    await this.send(request);
+  }
+  
+  /**
+   * Get the first records on the other side of a record's one-to-many or
+   * many-to-many relationship, and how many there are
+   */
+  public async retrieveRelated(
+    entity: string,
+    id: string,
+    relationship: RelationshipMetadata,
+    top: number
+  ): Promise<RelatedRecords> {
+    this.ensureInitialized();
+    
+    const recordId = id.replace(/[{}]/g, '');
+    let filter: string;
+    if (relationship.type === 'OneToMany') {
+      filter = `_${relationship.lookupAttribute}_value eq ${recordId}`;
+    } else if (relationship.type === 'ManyToMany') {
+      const { primaryIdAttribute } = await this.getEntity(entity);
+      filter = `${relationship.relatedNavigationProperty}/any(r:r/${primaryIdAttribute} eq ${recordId})`;
+    } else {
+      throw new Error(`${relationship.schemaName} points to a single record`);
+    }
+    
+    const { primaryIdAttribute, primaryNameAttribute } = await this.getEntity(relationship.relatedEntity);
+    const params = new URLSearchParams();
+    params.append('$select', primaryNameAttribute ? `${primaryIdAttribute},${primaryNameAttribute}` : primaryIdAttribute);
+    params.append('$filter', filter);
+    params.append('$top', Math.max(1, top).toString());
+    params.append('$count', 'true');
+    
+    const page = await this.fetchJson({
+      method: 'GET',
+      url: `${await this.getEntitySetUrl(relationship.relatedEntity)}?${params.toString()}`,
+      headers: { ...ODATA_HEADERS, 'Prefer': ALL_ANNOTATIONS_PREFER }
+    });
+    
+    const records: any[] = page.value || [];
+    return {
+      records: records.slice(0, top).map(record => ({
+        entity: relationship.relatedEntity,
+        id: record[primaryIdAttribute],
+        name: primaryNameAttribute ? record[primaryNameAttribute] : undefined
+      })),
+      totalCount: page['@odata.count'] ?? records.length,
+      totalCountExceeded: page['@Microsoft.Dynamics.CRM.totalrecordcountlimitexceeded'] === true
+    };
+  }
+  
+  /**
+   * Find records of a table whose name starts with the text, for lookup pickers
+   */
+  public async searchRecords(entity: string, text: string): Promise<RecordReference[]> {
+    this.ensureInitialized();
+    
+    const { primaryIdAttribute, primaryNameAttribute } = await this.getEntity(entity);
+    if (!primaryNameAttribute) {
+      return [];
+    }
+    
+    const params = new URLSearchParams();
+    params.append('$select', `${primaryIdAttribute},${primaryNameAttribute}`);
+    params.append('$filter', `startswith(${primaryNameAttribute},'${text.replace(/'/g, "''")}')`);
+    params.append('$orderby', primaryNameAttribute);
+    params.append('$top', SEARCH_SIZE.toString());
+    
+    const result = await this.fetchJson({
+      method: 'GET',
+      url: `${await this.getEntitySetUrl(entity)}?${params.toString()}`,
+      headers: { ...ODATA_HEADERS }
+    });
+    
+    return (result.value || []).map((record: any) => ({
+      entity,
+      id: record[primaryIdAttribute],
+      name: record[primaryNameAttribute]
+    }));
+  }
+  
+  /**
+   * Undo a journaled UPDATE or DELETE: updated records get their old values
+   * back and deleted records are created again with the same ids. Records
+   * that fail stay in the journal, so reverting again retries only those.
+   */
+  public async revertMutation(entryId: string, options: BatchOptions = {}): Promise<number> {
+    this.ensureInitialized();
+    
+    const entry = await undoJournal.getEntry(entryId);
+    if (!entry) {
+      throw new Error('This change is no longer in the undo journal');
+    }
+    if (entry.revertedOn) {
+      throw new Error('This change has already been reverted');
+    }
+    if (entry.orgUrl !== this.clientUrl) {
+      throw new Error(`This change was made in ${entry.orgUrl}`);
+    }
+    
+    await this.checkWritable('Revert');
+    const summary = `Revert ${entry.operation} of ${entry.records.length} ${entry.entity} record(s)`;
+    if (!(await this.confirmProductionChange(summary, options))) {
+      throw new EnvironmentPolicyError('The revert was not confirmed, nothing was changed');
+    }
+    
+    const { primaryIdAttribute } = await this.getEntity(entry.entity);
+    const requests = await Promise.all(entry.records.map(async record => entry.operation === 'UPDATE'
+      ? this.buildUpdateRequest(entry.entity, record[primaryIdAttribute], await this.getRevertValues(entry, record))
+      : this.buildCreateRequest({
+        operation: 'INSERT',
+        entity: entry.entity,
+        values: await this.getCreateValues(entry.entity, record)
+      })
+    ));
+    
+    const outcomes = await this.sendBatches(requests, options);
+    const failed = entry.records.filter((_, index) => outcomes[index].status !== 'Succeeded');
+    
+    if (failed.length > 0) {
+      await undoJournal.updateRecords(entry.id, failed);
+      const error = outcomes.find(outcome => outcome.error)?.error;
+      throw new Error(
+        `${failed.length} of ${requests.length} record(s) could not be reverted` +
+        (error ? `: ${error}` : '') + '. Revert again to retry them.'
+      );
+    }
+    
+    await undoJournal.markReverted(entry.id);
+    
+    return requests.length;
+  }
+  
+  private ensureInitialized(): void {
+    if (!this.clientUrl) {
+      throw new Error('Dynamics API not initialized. Please navigate to a Dynamics CRM instance first.');
+    }
+  }
+  
+  // Organizations without a connection have no safety settings
+  private async checkWritable(operation: string): Promise<void> {
+    const connection = await connectionManager.findByOrgUrl(this.clientUrl!);
+    if (connection?.readOnly) {
+      throw new EnvironmentPolicyError(`${connection.name} is read-only, ${operation} is not allowed`);
+    }
+  }
+  
+  /**
+   * Ask for the second confirmation production environments need before a change.
+   * Resolves to true straight away anywhere else.
+   */
+  private async confirmProductionChange(summary: string, options: ChangeOptions): Promise<boolean> {
+    const connection = await connectionManager.findByOrgUrl(this.clientUrl!);
+    if (connection?.environmentType !== 'Production') {
+      return true;
+    }
+    
+    if (!options.confirmProductionChange) {
+      throw new EnvironmentPolicyError(`${connection.name} is a production environment, changes there must be confirmed`);
+    }
+    
+    return options.confirmProductionChange(summary);
+  }
+  
+  /**
+   * Resolve table names, pick OData or FetchXML, and validate the query for that path
+   */
+  private async prepareQuery(
+    parsedQuery: ParsedQuery,
+    options: ExecuteOptions
+  ): Promise<{ query: ParsedQuery; useFetchXml: boolean }> {
+    const query = await this.resolveQuery(parsedQuery);
+    
+    const useFetchXml = query.operation === 'SELECT' &&
+      (!!options.useFetchXml || await this.requiresFetchXml(query));
+    await this.validateQuery(query, useFetchXml);
+    
+    return { query, useFetchXml };
+  }
+  
+  /**
+   * Replace the table names the user typed (logical or entity set names)
+   * with logical names, which FetchXML and the metadata lookups expect
+   */
+  private async resolveQuery(query: ParsedQuery): Promise<ParsedQuery> {
+    const entity = await this.getEntity(query.entity);
+    const resolved: ParsedQuery = { ...query, entity: entity.logicalName };
+    
+    // Columns qualified with the typed name must still refer to the base table
+    if (!query.alias && entity.logicalName !== query.entity) {
+      resolved.alias = query.entity;
+    }
+    
+    if (query.joins) {
+      resolved.joins = await Promise.all(query.joins.map(async join => ({
+        ...join,
+        entity: (await this.getEntity(join.entity)).logicalName
+      })));
+    }
+    
+    return resolved;
+  }
+  
+  /**
+   * Check the query against column metadata, since the Web API only
+   * reports the first problem as an HTTP 400
+   */
+  private async validateQuery(query: ParsedQuery, useFetchXml: boolean): Promise<void> {
+    const tables = await this.getQueryTables(query);
+    
+    // Suggested in place of lookup columns that INSERT or UPDATE set directly
+    const lookupRelationships = query.values ? await this.getLookupRelationships(query.entity) : undefined;
+    
+    queryValidator.validate(query, tables, { fetchXml: useFetchXml, lookupRelationships });
+  }
+  
+  // Columns of each table of a query, keyed by table alias
+  private async getQueryTables(query: ParsedQuery): Promise<Map<string, AttributeMetadata[]>> {
+    const tables = new Map<string, AttributeMetadata[]>();
+    tables.set(query.alias || query.entity, await this.getAttributes(query.entity));
+    
+    for (const join of query.joins || []) {
+      tables.set(join.alias, await this.getAttributes(join.entity));
+    }
+    
+    return tables;
+  }
+  
+  // DateTime columns compare with unquoted dates, so the $filter needs the column types
+  private async getColumnTypes(query: ParsedQuery): Promise<ColumnTypeResolver> {
+    const tables = await this.getQueryTables(query);
+    const baseAlias = query.alias || query.entity;
+    return column => tables.get(column.table || baseAlias)
+      ?.find(attribute => attribute.logicalName === column.name)?.attributeType;
+  }
+  
+  // SELECT queries that OData cannot express run as FetchXML
+  private async requiresFetchXml(query: ParsedQuery): Promise<boolean> {
+    if (query.aggregates) {
+      return true;
+    }
+    return !!query.joins && query.joins.length > 0 && !(await this.canExpandJoins(query));
+  }
+  
+  private getAttributes(entity: string): Promise<AttributeMetadata[]> {
+    return metadataService.getAttributes(this.clientUrl!, entity);
+  }
+  
+  private getEntity(entity: string): Promise<EntityMetadata> {
+    return metadataService.getEntity(this.clientUrl!, entity);
+  }
+  
+  private getLookupRelationships(entity: string): Promise<LookupRelationship[]> {
+    return metadataService.getLookupRelationships(this.clientUrl!, entity);
+  }
+  
+  private async compileFetchXml(query: ParsedQuery, paging?: FetchXmlPaging): Promise<string> {
+    const { primaryIdAttribute } = await this.getEntity(query.entity);
+    return fetchXmlBuilder.build(query, { primaryIdAttribute, paging });
+  }
+  
+  private async explainRetrieve(query: ParsedQuery, useFetchXml: boolean): Promise<ExplainStep> {
+    if (query.aggregates) {
+      const clientSide = [query.having && 'HAVING', query.limit !== undefined && 'LIMIT'].filter(Boolean);
+      return {
+        description: 'Retrieve the grouped rows with FetchXML aggregation' +
+          (clientSide.length > 0 ? `; ${clientSide.join(' and ')} are applied to the grouped rows afterwards` : ''),
+        request: await this.buildFetchXmlRequest(query)
+      };
+    }
+    
+    if (useFetchXml) {
+      const paged = this.needsPaging(query);
+      return {
+        description: paged
+          ? `Retrieve the first page of ${PAGE_SIZE} records with FetchXML; further pages follow with the paging cookie`
+          : 'Retrieve the records with FetchXML',
+        request: await this.buildFetchXmlRequest(query, paged ? { page: 1, count: PAGE_SIZE } : undefined)
+      };
+    }
+    
+    if (query.joins && query.joins.length > 0) {
+      return {
+        description: 'Retrieve the records with the joined tables expanded through their lookups; ' +
+          'further pages follow @odata.nextLink',
+        request: await this.buildExpandRequest(query)
+      };
+    }
+    
+    return {
+      description: `Retrieve the records, ${PAGE_SIZE} per page; further pages follow @odata.nextLink`,
+      request: await this.buildRetrieveRequest(query)
+    };
+  }
+  
+  private async executeRetrieve(query: ParsedQuery, onRows?: (rows: any[]) => void): Promise<RetrieveResult> {
+    if (query.aggregates) {
+      return { records: await this.executeAggregateRetrieve(query) };
+    }
+    
+    if (query.joins && query.joins.length > 0) {
+      return await this.canExpandJoins(query)
+        ? this.executeExpandRetrieve(query, onRows)
+        : this.executeFetchXmlRetrieve(query, onRows);
+    }
+    
+    return this.fetchPages(await this.buildRetrieveRequest(query), query.limit, onRows);
+  }
+  
+  private async buildRetrieveRequest(query: ParsedQuery): Promise<ApiRequest> {
+    const { entity, fields, orderBy, limit } = query;
+    // Rebuilt from the expression so conditions OData cannot express report why
+    const filter = query.where
+      ? odataFilterBuilder.build(query.where, undefined, await this.getColumnTypes(query))
+      : query.filter;
     
     // Build the OData URL
-    let url = `${this.clientUrl}/api/data/v${this.apiVersion}/${entity}`;
+    let url = await this.getEntitySetUrl(entity);
     
     // Add query parameters
     const params = new URLSearchParams();
@@ -95,160 +682,657 @@ export class DynamicsApi {
       params.append('$orderby', orderByStr);
     }
     
-    // Top (limit)
-    if (limit) {
+    // Top (limit); larger limits are read page by page instead
+    if (limit && !this.needsPaging(query)) {
       params.append('$top', limit.toString());
     }
     
+    // Count every matching record, for "showing N of M"
+    params.append('$count', 'true');
+    
     // Append parameters to URL
-    const queryString = params.toString();
-    if (queryString) {
-      url += `?${queryString}`;
-    }
+    url += `?${params.toString()}`;
     
-    // Execute the request
-    const response = await fetch(url, {
+    return {
       method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'OData-MaxVersion': '4.0',
-        'OData-Version': '4.0'
-      },
-      credentials: 'same-origin'
+      url,
+      headers: { ...ODATA_HEADERS, 'Prefer': `${ALL_ANNOTATIONS_PREFER},${ODATA_PAGING_PREFER}` }
+    };
+  }
+  
+  /**
+   * Joins can use $expand when every joined table is a lookup target of the
+   * base table (base.lookup = joined.primarykey) and is not used for sorting
+   */
+  private async canExpandJoins(query: ParsedQuery): Promise<boolean> {
+    return (await this.getExpandNavigationProperties(query)) !== null;
+  }
+  
+  /**
+   * The navigation property each joined table is expanded through, by join
+   * alias. It comes from the lookup's relationship to that table, since
+   * polymorphic lookups have one per table (parentcustomerid_account) and
+   * custom ones are cased like their schema name. Null when a join cannot be
+   * expanded.
+   */
+  private async getExpandNavigationProperties(query: ParsedQuery): Promise<Map<string, string> | null> {
+    const baseAlias = query.alias || query.entity;
+    const relationships = await this.getLookupRelationships(query.entity);
+    const navigationProperties = new Map<string, string>();
+    
+    for (const join of query.joins || []) {
+      const { logicalName, primaryIdAttribute } = await this.getEntity(join.entity);
+      const relationship = relationships.find(item =>
+        item.referencingAttribute === join.to && item.referencedEntity === logicalName
+      );
+      if (
+        !relationship ||
+        join.toAlias !== baseAlias ||
+        join.from !== primaryIdAttribute ||
+        (query.orderBy || []).some(item => item.alias === join.alias)
+      ) {
+        return null;
+      }
+      navigationProperties.set(join.alias, relationship.navigationProperty);
+    }
+    
+    return navigationProperties;
+  }
+  
+  /**
+   * Retrieve a joined query through single-valued navigation properties
+   */
+  private async executeExpandRetrieve(query: ParsedQuery, onRows?: (rows: any[]) => void): Promise<RetrieveResult> {
+    const rows: any[] = [];
+    const navigationProperties = await this.getExpandNavigationProperties(query);
+    
+    const result = await this.fetchPages(await this.buildExpandRequest(query), query.limit, records => {
+      const pageRows = records.map(record => this.flattenExpanded(query, record, navigationProperties!));
+      rows.push(...pageRows);
+      onRows?.(pageRows);
+    });
+    
+    return { ...result, records: rows };
+  }
+  
+  // Flatten an expanded record into alias.field columns
+  private flattenExpanded(
+    query: ParsedQuery,
+    record: any,
+    navigationProperties: Map<string, string>
+  ): Record<string, any> {
+    const row: Record<string, any> = { ...record };
+    
+    (query.joins || []).forEach(join => {
+      const navigationProperty = navigationProperties.get(join.alias)!;
+      const related = record[navigationProperty];
+      delete row[navigationProperty];
+      
+      const columns = related
+        ? Object.keys(related).filter(key => !key.startsWith('@'))
+        : join.fields || [];
+      
+      columns.forEach(column => {
+        row[`${join.alias}.${column}`] = related ? related[column] : null;
+      });
+      
+      // Keep formatted values with the joined column they belong to
+      if (related) {
+        Object.keys(related)
+          .filter(key => key.includes('@') && !key.startsWith('@'))
+          .forEach(key => {
+            row[`${join.alias}.${key}`] = related[key];
+          });
+      }
     });
     
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
+    return row;
+  }
+  
+  private async buildExpandRequest(query: ParsedQuery): Promise<ApiRequest> {
+    const { entity, fields, where, orderBy, limit } = query;
+    const joins = query.joins || [];
+    const baseAlias = query.alias || entity;
+    
+    const navigationProperties = await this.getExpandNavigationProperties(query);
+    if (!navigationProperties) {
+      throw new Error('The joined tables cannot be expanded through lookups of the base table');
     }
     
-    const result = await response.json();
-    return result.value || [];
+    const params = new URLSearchParams();
+    
+    if (fields) {
+      const { primaryIdAttribute } = await this.getEntity(entity);
+      params.append('$select', (fields.length > 0 ? fields : [primaryIdAttribute]).join(','));
+    }
+    
+    params.append('$expand', joins.map(join => {
+      const select = join.fields ? `($select=${join.fields.join(',')})` : '';
+      return `${navigationProperties.get(join.alias)}${select}`;
+    }).join(','));
+    
+    // An inner join only keeps rows where the lookup is set
+    const filters = joins
+      .filter(join => join.type === 'INNER')
+      .map(join => `_${join.to}_value ne null`);
+    
+    if (where) {
+      const filter = odataFilterBuilder.build(
+        where,
+        column => column.table && column.table !== baseAlias
+          ? `${navigationProperties.get(column.table)}/${column.name}`
+          : column.name,
+        await this.getColumnTypes(query)
+      );
+      filters.push(filters.length > 0 ? `(${filter})` : filter);
+    }
+    
+    if (filters.length > 0) {
+      params.append('$filter', filters.join(' and '));
+    }
+    
+    if (orderBy && orderBy.length > 0) {
+      params.append('$orderby', orderBy.map(item => `${item.field} ${item.direction}`).join(','));
+    }
+    
+    if (limit && !this.needsPaging(query)) {
+      params.append('$top', limit.toString());
+    }
+    
+    params.append('$count', 'true');
+    
+    return {
+      method: 'GET',
+      url: `${await this.getEntitySetUrl(entity)}?${params.toString()}`,
+      headers: { ...ODATA_HEADERS, 'Prefer': `${ALL_ANNOTATIONS_PREFER},${ODATA_PAGING_PREFER}` }
+    };
   }
   
-  private async executeCreate(query: ParsedQuery): Promise<any> {
-    const { entity, values } = query;
+  /**
+   * Retrieve a query through FetchXML, where joined columns come back as alias.field.
+   * Results beyond one page are followed with paging cookies.
+   */
+  private async executeFetchXmlRetrieve(query: ParsedQuery, onRows?: (rows: any[]) => void): Promise<RetrieveResult> {
+    if (query.aggregates) {
+      return { records: await this.executeAggregateRetrieve(query) };
+    }
     
-    if (!values) {
-      throw new Error('No values provided for INSERT operation');
+    if (!this.needsPaging(query)) {
+      return { records: (await this.fetchFetchXmlPage(await this.buildFetchXmlRequest(query))).records };
     }
     
-    // Build the OData URL
-    const url = `${this.clientUrl}/api/data/v${this.apiVersion}/${entity}`;
+    const records: any[] = [];
+    let page = 1;
+    let pagingCookie: string | undefined;
     
-    // Execute the request
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'OData-MaxVersion': '4.0',
-        'OData-Version': '4.0'
-      },
-      body: JSON.stringify(values),
-      credentials: 'same-origin'
-    });
+    while (true) {
+      const request = await this.buildFetchXmlRequest(query, { page, count: PAGE_SIZE, pagingCookie });
+      const result = await this.fetchFetchXmlPage(request);
+      
+      const pageRecords = query.limit !== undefined
+        ? result.records.slice(0, query.limit - records.length)
+        : result.records;
+      records.push(...pageRecords);
+      onRows?.(pageRecords);
+      
+      if (!result.moreRecords || (query.limit !== undefined && records.length >= query.limit)) {
+        break;
+      }
+      
+      page++;
+      pagingCookie = result.pagingCookie;
+    }
+    
+    return { records };
+  }
+  
+  // A LIMIT that fits in one page can use top instead of paging
+  private needsPaging(query: ParsedQuery): boolean {
+    return query.limit === undefined || query.limit > PAGE_SIZE;
+  }
+  
+  private async buildFetchXmlRequest(query: ParsedQuery, paging?: FetchXmlPaging): Promise<ApiRequest> {
+    const fetchXml = await this.compileFetchXml(query, paging);
     
-    if (!response.ok) {
-      throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
+    return {
+      method: 'GET',
+      url: `${await this.getEntitySetUrl(query.entity)}?fetchXml=${encodeURIComponent(fetchXml)}`,
+      headers: { ...ODATA_HEADERS, 'Prefer': ALL_ANNOTATIONS_PREFER }
+    };
+  }
+  
+  private async fetchFetchXmlPage(
+    request: ApiRequest
+  ): Promise<{ records: any[]; moreRecords: boolean; pagingCookie?: string }> {
+    const result = await this.fetchJson(request);
+    
+    return {
+      records: result.value || [],
+      moreRecords: result['@Microsoft.Dynamics.CRM.morerecords'] === true,
+      pagingCookie: this.extractPagingCookie(result['@Microsoft.Dynamics.CRM.fetchxmlpagingcookie'])
+    };
+  }
+  
+  /**
+   * The annotation wraps the paging cookie, double URL-encoded, in a cookie element
+   */
+  private extractPagingCookie(cookieXml: string | undefined): string | undefined {
+    const match = cookieXml?.match(/pagingcookie="([^"]*)"/);
+    return match ? decodeURIComponent(decodeURIComponent(match[1])) : undefined;
+  }
+  
+  /**
+   * Run GROUP BY/aggregate queries through FetchXML aggregation. FetchXML has
+   * no HAVING, so HAVING and LIMIT are applied to the grouped rows here.
+   */
+  private async executeAggregateRetrieve(query: ParsedQuery): Promise<any[]> {
+    let rows = (await this.fetchFetchXmlPage(await this.buildFetchXmlRequest(query))).records;
+    
+    if (query.having) {
+      const having = query.having;
+      rows = rows.filter(row => expressionEvaluator.matches(having, row));
+    }
+    
+    if (query.limit !== undefined) {
+      rows = rows.slice(0, query.limit);
     }
     
+    return rows;
+  }
+  
+  /**
+   * Read an OData result page by page through @odata.nextLink, stopping
+   * once `limit` records have arrived
+   */
+  private async fetchPages(
+    request: ApiRequest,
+    limit?: number,
+    onPage?: (records: any[]) => void
+  ): Promise<RetrieveResult> {
+    const result: RetrieveResult = { records: [] };
+    let url: string | undefined = request.url;
+    
+    while (url) {
+      const page = await this.fetchJson({ ...request, url });
+      
+      // Only the first page carries the count
+      if (result.totalCount === undefined && typeof page['@odata.count'] === 'number') {
+        result.totalCount = page['@odata.count'];
+        result.totalCountExceeded = page['@Microsoft.Dynamics.CRM.totalrecordcountlimitexceeded'] === true;
+      }
+      
+      let records: any[] = page.value || [];
+      if (limit !== undefined) {
+        records = records.slice(0, limit - result.records.length);
+      }
+      result.records.push(...records);
+      onPage?.(records);
+      
+      url = limit !== undefined && result.records.length >= limit ? undefined : page['@odata.nextLink'];
+    }
+    
+    return result;
+  }
+  
+  private async fetchJson(request: ApiRequest): Promise<any> {
+    const response = await this.send(request);
+    return response.json();
+  }
+  
+  // A raw body, such as a $batch payload, replaces the JSON body
+  private send(request: ApiRequest, rawBody?: string): Promise<Response> {
+    return webApiClient.request(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: rawBody ?? (request.body ? JSON.stringify(request.body) : undefined)
+    });
+  }
+  
+  private async getEntitySetUrl(entity: string): Promise<string> {
+    const { entitySetName } = await this.getEntity(entity);
+    return `${this.clientUrl}/api/data/v${this.apiVersion}/${entitySetName}`;
+  }
+  
+  private async executeCreate(query: ParsedQuery): Promise<any> {
+    const response = await this.send(await this.buildCreateRequest(query));
+    
     // For create operations, return the created entity ID
     const entityId = response.headers.get('OData-EntityId');
-    return { id: entityId, ...values };
+    return { id: entityId, ...query.values };
   }
   
-  private async executeUpdate(query: ParsedQuery): Promise<any> {
-    const { entity, values, filter } = query;
+  private async buildCreateRequest(query: ParsedQuery): Promise<ApiRequest> {
+    const { entity, values } = query;
     
     if (!values) {
+      throw new Error('No values provided for INSERT operation');
+    }
+    
+    return {
+      method: 'POST',
+      url: await this.getEntitySetUrl(entity),
+      headers: { ...ODATA_HEADERS, 'Content-Type': 'application/json' },
+      body: values
+    };
+  }
+  
+  private async buildUpdateRequest(entity: string, recordId: string, values: Record<string, any>): Promise<ApiRequest> {
+    return {
+      method: 'PATCH',
+      url: `${await this.getEntitySetUrl(entity)}(${recordId})`,
+      headers: { ...ODATA_HEADERS, 'Content-Type': 'application/json' },
+      body: values
+    };
+  }
+  
+  private async buildDeleteRequest(entity: string, recordId: string): Promise<ApiRequest> {
+    return {
+      method: 'DELETE',
+      url: `${await this.getEntitySetUrl(entity)}(${recordId})`,
+      headers: { ...ODATA_HEADERS }
+    };
+  }
+  
+  /**
+   * UPDATE and DELETE first look up the matching records, which are previewed
+   * and confirmed before anything changes
+   */
+  private async executeMutation(
+    query: ParsedQuery,
+    options: ExecuteOptions
+  ): Promise<Omit<QueryResult, 'orgUrl' | 'executionTime'>> {
+    if (query.operation === 'UPDATE' && !query.values) {
       throw new Error('No values provided for UPDATE operation');
     }
     
-    if (!filter) {
-      throw new Error('Filter (WHERE clause) is required for UPDATE operations');
+    if (!options.dryRun && !options.confirmMutation) {
+      throw new Error(`${query.operation} must be confirmed before it runs`);
     }
     
-    // First, retrieve the records to update
-    const recordsToUpdate = await this.executeRetrieve({
-      operation: 'SELECT',
-      entity,
-      filter
+    const { records } = await this.fetchPages(await this.buildLookupRequest(query));
+    const columns = await this.getPreviewColumns(query);
+    const preview: MutationPreview = {
+      operation: query.operation as 'UPDATE' | 'DELETE',
+      entity: query.entity,
+      matchedCount: records.length,
+      sample: records.slice(0, PREVIEW_SAMPLE_SIZE).map(record =>
+        Object.fromEntries(columns.map(column => [column, record[column]]))
+      )
+    };
+    
+    if (options.dryRun) {
+      return { data: preview.sample, preview };
+    }
+    
+    if (records.length === 0) {
+      return { data: [], preview };
+    }
+    
+    if (!(await options.confirmMutation!(preview))) {
+      return { data: [], preview, cancelled: true };
+    }
+    
+    const summary = `${query.operation} of ${records.length} ${query.entity} record(s)`;
+    if (!(await this.confirmProductionChange(summary, options))) {
+      return { data: [], preview, cancelled: true };
+    }
+    
+    // Keep the records as they are now, so the change can be reverted
+    const entry = await undoJournal.add({
+      orgUrl: this.clientUrl!,
+      operation: preview.operation,
+      entity: query.entity,
+      values: query.values,
+      records
     });
     
-    if (recordsToUpdate.length === 0) {
-      return { affectedRecords: 0 };
+    const { primaryIdAttribute, primaryNameAttribute } = await this.getEntity(query.entity);
+    const requests = await Promise.all(records.map(record => query.operation === 'UPDATE'
+      ? this.buildUpdateRequest(query.entity, record[primaryIdAttribute], query.values!)
+      : this.buildDeleteRequest(query.entity, record[primaryIdAttribute])
+    ));
+    
+    const results = await this.sendBatches(requests, options);
+    const outcomes: RecordOutcome[] = results.map((result, index) => ({
+      id: records[index][primaryIdAttribute],
+      ...(primaryNameAttribute ? { name: records[index][primaryNameAttribute] } : {}),
+      ...result
+    }));
+    
+    // Only records that changed can be reverted
+    const changed = records.filter((_, index) => results[index].status === 'Succeeded');
+    if (changed.length > 0) {
+      await undoJournal.updateRecords(entry.id, changed);
+    } else {
+      await undoJournal.remove(entry.id);
+    }
+    
+    return { data: outcomes, preview };
+  }
+  
+  /**
+   * Look up the records an UPDATE or DELETE matches, with the lookup
+   * annotations the undo journal needs to restore lookups
+   */
+  private async buildLookupRequest(query: ParsedQuery): Promise<ApiRequest> {
+    const request = await this.buildRetrieveRequest(await this.buildLookupQuery(query));
+    request.headers['Prefer'] = `${LOOKUP_ANNOTATIONS_PREFER},${ODATA_PAGING_PREFER}`;
+    return request;
+  }
+  
+  /**
+   * An UPDATE reads the columns it sets; a DELETE reads every column,
+   * so deleted records can be created again
+   */
+  private async buildLookupQuery(query: ParsedQuery): Promise<ParsedQuery> {
+    const { entity, filter, where } = query;
+    
+    if (!filter && !where) {
+      throw new Error(`Filter (WHERE clause) is required for ${query.operation} operations`);
+    }
+    
+    const fields = query.operation === 'UPDATE' ? await this.getPreviewColumns(query) : undefined;
+    return { operation: 'SELECT', entity, alias: query.alias, fields, filter, where };
+  }
+  
+  /**
+   * The primary key and name of the matched records, plus the columns an UPDATE sets
+   */
+  private async getPreviewColumns(query: ParsedQuery): Promise<string[]> {
+    const { primaryIdAttribute, primaryNameAttribute } = await this.getEntity(query.entity);
+    const columns = [primaryIdAttribute];
+    
+    if (primaryNameAttribute) {
+      columns.push(primaryNameAttribute);
     }
     
-    // Update each record
-    const updatePromises = recordsToUpdate.map(async (record) => {
-      const recordId = record[`${entity}id`];
-      const url = `${this.clientUrl}/api/data/v${this.apiVersion}/${entity}(${recordId})`;
+    if (query.operation === 'UPDATE') {
+      const attributes = await this.getAttributes(query.entity);
+      const relationships = await this.getLookupRelationships(query.entity);
       
-      const response = await fetch(url, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'OData-MaxVersion': '4.0',
-          'OData-Version': '4.0'
-        },
-        body: JSON.stringify(values),
-        credentials: 'same-origin'
+      Object.keys(query.values || {}).forEach(field => {
+        let column: string | undefined = field;
+        
+        if (field.endsWith(BIND_SUFFIX)) {
+          // Lookups set through a navigation property are read from their lookup column
+          const navigationProperty = field.slice(0, -BIND_SUFFIX.length);
+          const relationship = relationships.find(item => item.navigationProperty === navigationProperty);
+          column = relationship && `_${relationship.referencingAttribute}_value`;
+        } else if (field.includes('@')) {
+          column = undefined;
+        } else {
+          const attribute = attributes.find(item => item.logicalName === field);
+          if (attribute && isLookupAttribute(attribute)) {
+            column = `_${field}_value`;
+          }
+        }
+        
+        if (column && !columns.includes(column)) {
+          columns.push(column);
+        }
       });
+    }
+    
+    return columns;
+  }
+  
+  // The values an UPDATE overwrote, keyed the way the UPDATE set them
+  private async getRevertValues(entry: JournalEntry, record: any): Promise<Record<string, any>> {
+    const relationships = await this.getLookupRelationships(entry.entity);
+    const values: Record<string, any> = {};
+    
+    for (const field of Object.keys(entry.values || {})) {
+      if (field.endsWith(BIND_SUFFIX)) {
+        const navigationProperty = field.slice(0, -BIND_SUFFIX.length);
+        const relationship = relationships.find(item => item.navigationProperty === navigationProperty);
+        if (relationship) {
+          // A polymorphic lookup may have pointed to another table through another navigation property
+          const binding = await this.bindLookup(record, relationship.referencingAttribute);
+          if (binding) {
+            values[binding[0]] = binding[1];
+          } else {
+            values[field] = null;
+          }
+        }
+      } else if (!field.includes('@') && field in record) {
+        values[field] = record[field];
+      }
+    }
+    
+    return values;
+  }
+  
+  // Lookups are set through the navigation property for the table they point to
+  private async getUpdateValues(entity: string, changes: Record<string, any>): Promise<Record<string, any>> {
+    const relationships = await this.getLookupRelationships(entity);
+    const values: Record<string, any> = {};
+    
+    for (const [column, value] of Object.entries(changes)) {
+      const lookup = /^_(.+)_value$/.exec(column);
+      if (!lookup) {
+        values[column] = value;
+        continue;
+      }
       
-      if (!response.ok) {
-        throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
+      const reference = value as RecordReference | null;
+      const candidates = relationships.filter(item => item.referencingAttribute === lookup[1]);
+      const relationship = reference
+        ? candidates.find(item => item.referencedEntity === reference.entity)
+        : candidates[0];
+      if (!relationship) {
+        throw new Error(reference
+          ? `${lookup[1]} cannot point to a ${reference.entity} record`
+          : `${lookup[1]} is not a lookup that can be changed`);
       }
       
-      return true;
-    });
+      values[`${relationship.navigationProperty}${BIND_SUFFIX}`] = reference
+        ? `/${(await this.getEntity(reference.entity)).entitySetName}(${reference.id})`
+        : null;
+    }
     
-    await Promise.all(updatePromises);
-    return { affectedRecords: recordsToUpdate.length };
+    return values;
   }
   
-  private async executeDelete(query: ParsedQuery): Promise<any> {
-    const { entity, filter } = query;
+  // The columns of a deleted record that can be set when it is created again
+  private async getCreateValues(entity: string, record: any): Promise<Record<string, any>> {
+    const { primaryIdAttribute } = await this.getEntity(entity);
+    const attributes = await this.getAttributes(entity);
+    const values: Record<string, any> = { [primaryIdAttribute]: record[primaryIdAttribute] };
     
-    if (!filter) {
-      throw new Error('Filter (WHERE clause) is required for DELETE operations');
+    for (const attribute of attributes) {
+      const { logicalName } = attribute;
+      if (
+        !attribute.validForCreate ||
+        logicalName === primaryIdAttribute ||
+        UNRESTORABLE_TYPES.includes(attribute.attributeType)
+      ) {
+        continue;
+      }
+      
+      if (isLookupAttribute(attribute)) {
+        const binding = await this.bindLookup(record, logicalName);
+        if (binding) {
+          values[binding[0]] = binding[1];
+        }
+      } else if (record[logicalName] !== undefined && record[logicalName] !== null) {
+        values[logicalName] = record[logicalName];
+      }
     }
     
-    // First, retrieve the records to delete
-    const recordsToDelete = await this.executeRetrieve({
-      operation: 'SELECT',
-      entity,
-      filter
-    });
+    return values;
+  }
+  
+  // Rebuild a lookup as navigation@odata.bind from its value and annotations
+  private async bindLookup(record: any, column: string): Promise<[string, string] | null> {
+    const key = `_${column}_value`;
+    const id = record[key];
+    const navigationProperty = record[`${key}@Microsoft.Dynamics.CRM.associatednavigationproperty`];
+    const target = record[`${key}@Microsoft.Dynamics.CRM.lookuplogicalname`];
     
-    if (recordsToDelete.length === 0) {
-      return { affectedRecords: 0 };
+    if (!id || !navigationProperty || !target) {
+      return null;
     }
     
-    // Delete each record
-    const deletePromises = recordsToDelete.map(async (record) => {
-      const recordId = record[`${entity}id`];
-      const url = `${this.clientUrl}/api/data/v${this.apiVersion}/${entity}(${recordId})`;
-      
-      const response = await fetch(url, {
-        method: 'DELETE',
-        headers: {
-          'Accept': 'application/json',
-          'OData-MaxVersion': '4.0',
-          'OData-Version': '4.0'
-        },
-        credentials: 'same-origin'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
+    const { entitySetName } = await this.getEntity(target);
+    return [`${navigationProperty}${BIND_SUFFIX}`, `/${entitySetName}(${id})`];
+  }
+  
+  /**
+   * Send requests as $batch changesets, a bounded number at a time, and
+   * report the outcome of each request in order
+   */
+  private async sendBatches(
+    requests: ApiRequest[],
+    options: BatchOptions
+  ): Promise<Pick<RecordOutcome, 'status' | 'error'>[]> {
+    const outcomes: Pick<RecordOutcome, 'status' | 'error'>[] = new Array(requests.length);
+    const batches: number[] = [];
+    for (let start = 0; start < requests.length; start += BATCH_SIZE) {
+      batches.push(start);
+    }
+    
+    const progress: MutationProgress = { completed: 0, failed: 0, total: requests.length };
+    let nextBatch = 0;
+    
+    const worker = async (): Promise<void> => {
+      while (nextBatch < batches.length) {
+        const start = batches[nextBatch++];
+        const results = await this.sendBatch(requests.slice(start, start + BATCH_SIZE));
+        
+        results.forEach((result, index) => {
+          outcomes[start + index] = result;
+        });
+        
+        progress.completed += results.length;
+        progress.failed += results.filter(result => result.status !== 'Succeeded').length;
+        options.onProgress?.({ ...progress });
       }
-      
-      return true;
-    });
+    };
+    
+    const concurrency = Math.max(1, options.concurrency || DEFAULT_BATCH_CONCURRENCY);
+    await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+    
+    return outcomes;
+  }
+  
+  // Send one changeset; failures are reported per request rather than thrown
+  private async sendBatch(requests: ApiRequest[]): Promise<Pick<RecordOutcome, 'status' | 'error'>[]> {
+    const batch = odataBatchBuilder.build(requests);
+    
+    let responses;
+    try {
+      const response = await this.send({
+        method: 'POST',
+        url: `${this.clientUrl}/api/data/v${this.apiVersion}/$batch`,
+        headers: { ...ODATA_HEADERS, 'Content-Type': batch.contentType }
+      }, batch.body);
+      responses = odataBatchBuilder.parse(await response.text());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'The batch request failed';
+      return requests.map(() => ({ status: 'Failed', error: message }));
+    }
     
-    await Promise.all(deletePromises);
-    return { affectedRecords: recordsToDelete.length };
+    return odataBatchBuilder.readOutcomes(requests.length, responses);
   }
 }
 
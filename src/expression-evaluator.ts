@@ -0,0 +1,108 @@
+/**
+ * Expression Evaluator for Dynamics CRM SQL Query Extension
+ *
+ * Evaluates WHERE/HAVING expressions against result rows on the client,
+ * for conditions the server cannot apply (e.g. HAVING over FetchXML aggregates)
+ */
+
+import { Expression, Operand, LiteralValue } from './sql-ast';
+
+export class ExpressionEvaluator {
+  /**
+   * Check whether a row matches an expression. Columns are looked up by name.
+   */
+  matches(expression: Expression, row: Record<string, any>): boolean {
+    switch (expression.type) {
+      case 'Logical':
+        return expression.operator === 'AND'
+          ? this.matches(expression.left, row) && this.matches(expression.right, row)
+          : this.matches(expression.left, row) || this.matches(expression.right, row);
+      case 'Comparison': {
+        const left = this.valueOf(expression.left, row);
+        const right = this.valueOf(expression.right, row);
+
+        // As in SQL, comparisons with null never match
+        if (left === null || right === null) {
+          return false;
+        }
+
+        const order = this.compare(left, right);
+        switch (expression.operator) {
+          case '=': return order === 0;
+          case '<>': return order !== 0;
+          case '<': return order < 0;
+          case '>': return order > 0;
+          case '<=': return order <= 0;
+          case '>=': return order >= 0;
+        }
+        return false;
+      }
+      case 'Not':
+        return !this.matches(expression.operand, row);
+      case 'Like': {
+        const value = this.valueOf(expression.operand, row);
+        return value !== null && this.likeToRegExp(expression.pattern).test(String(value)) !== expression.negated;
+      }
+      case 'In': {
+        const value = this.valueOf(expression.operand, row);
+        if (value === null) {
+          // A listed NULL is a null check, as in the OData and FetchXML translations
+          return !expression.negated && expression.values.some(item => item.value === null);
+        }
+        const found = expression.values.some(item => item.value !== null && this.compare(value, item.value) === 0);
+        return found !== expression.negated;
+      }
+      case 'Between': {
+        const value = this.valueOf(expression.operand, row);
+        const { value: lower } = expression.lower;
+        const { value: upper } = expression.upper;
+        if (value === null || lower === null || upper === null) {
+          return false;
+        }
+        const inRange = this.compare(value, lower) >= 0 && this.compare(value, upper) <= 0;
+        return inRange !== expression.negated;
+      }
+      case 'IsNull': {
+        const isNull = this.valueOf(expression.operand, row) === null;
+        return expression.negated ? !isNull : isNull;
+      }
+      case 'Function':
+        throw new Error(`${expression.function}() is evaluated by Dataverse and cannot be used here`);
+    }
+  }
+
+  private valueOf(operand: Operand, row: Record<string, any>): LiteralValue {
+    switch (operand.type) {
+      case 'Literal':
+        return operand.value;
+      case 'Column': {
+        const value = row[operand.name];
+        return value === undefined ? null : value;
+      }
+      case 'Aggregate':
+        throw new Error('Aggregate functions must be resolved to result columns before evaluation');
+    }
+  }
+
+  private compare(left: string | number | boolean, right: string | number | boolean): number {
+    if (typeof left === 'number' || typeof right === 'number') {
+      return Number(left) - Number(right);
+    }
+    return String(left).toLowerCase().localeCompare(String(right).toLowerCase());
+  }
+
+  private likeToRegExp(pattern: string): RegExp {
+    // [_] is a literal underscore, as in FetchXML
+    const source = (pattern.match(/\[_\]|[\s\S]/g) || [])
+      .map(char => {
+        if (char === '%') return '.*';
+        if (char === '_') return '.';
+        if (char === '[_]') return '_';
+        return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}$`, 'i');
+  }
+}
+
+export default new ExpressionEvaluator();
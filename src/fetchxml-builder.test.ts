@@ -0,0 +1,166 @@
+import fetchXmlBuilder from './fetchxml-builder';
+import sqlParser from './sql-parser';
+
+// FetchXML for a SELECT, with accountid as the primary key of account
+function fetchXmlOf(sql: string): string {
+  return fetchXmlBuilder.build(sqlParser.parse(sql), { primaryIdAttribute: 'accountid' });
+}
+
+describe('FetchXmlBuilder', () => {
+  describe('joins', () => {
+    it('nests each joined table as a link-entity under the table it joins to', () => {
+      expect(fetchXmlOf(
+        'SELECT a.name, c.fullname FROM account a ' +
+        'LEFT JOIN contact c ON c.parentcustomerid = a.accountid ' +
+        "JOIN systemuser u ON u.systemuserid = c.ownerid WHERE u.fullname = 'X' ORDER BY c.fullname DESC"
+      )).toBe([
+        '<fetch>',
+        '  <entity name="account">',
+        '    <attribute name="name" />',
+        '    <filter type="and">',
+        '      <condition entityname="u" attribute="fullname" operator="eq" value="X" />',
+        '    </filter>',
+        '    <link-entity name="contact" from="parentcustomerid" to="accountid" link-type="outer" alias="c">',
+        '      <attribute name="fullname" />',
+        '      <order attribute="fullname" descending="true" />',
+        '      <link-entity name="systemuser" from="systemuserid" to="ownerid" link-type="inner" alias="u">',
+        '      </link-entity>',
+        '    </link-entity>',
+        '  </entity>',
+        '</fetch>'
+      ].join('\n'));
+    });
+
+    it('selects every column of a joined table for SELECT *', () => {
+      const fetchXml = fetchXmlOf('SELECT * FROM account a JOIN contact c ON c.parentcustomerid = a.accountid');
+      expect(fetchXml).toContain([
+        '    <all-attributes />',
+        '    <link-entity name="contact" from="parentcustomerid" to="accountid" link-type="inner" alias="c">',
+        '      <all-attributes />'
+      ].join('\n'));
+    });
+
+    it('keeps base table conditions unqualified', () => {
+      expect(fetchXmlOf(
+        'SELECT a.name FROM account a JOIN contact c ON c.parentcustomerid = a.accountid ' +
+        "WHERE a.name = 'A' OR c.fullname = 'B'"
+      )).toContain([
+        '    <filter type="or">',
+        '      <condition attribute="name" operator="eq" value="A" />',
+        '      <condition entityname="c" attribute="fullname" operator="eq" value="B" />',
+        '    </filter>'
+      ].join('\n'));
+    });
+  });
+
+  describe('aggregates', () => {
+    it('groups and aggregates with result aliases', () => {
+      expect(fetchXmlOf(
+        'SELECT statecode, COUNT(*) AS total, SUM(revenue) AS revenue, COUNT(DISTINCT ownerid) AS owners ' +
+        'FROM account GROUP BY statecode ORDER BY total DESC'
+      )).toBe([
+        '<fetch aggregate="true">',
+        '  <entity name="account">',
+        '    <attribute name="statecode" groupby="true" alias="statecode" />',
+        '    <attribute name="accountid" aggregate="count" alias="total" />',
+        '    <attribute name="revenue" aggregate="sum" alias="revenue" />',
+        '    <attribute name="ownerid" aggregate="countcolumn" distinct="true" alias="owners" />',
+        '    <order alias="total" descending="true" />',
+        '  </entity>',
+        '</fetch>'
+      ].join('\n'));
+    });
+
+    it('groups by a joined column inside its link-entity', () => {
+      const fetchXml = fetchXmlOf(
+        'SELECT c.jobtitle, AVG(a.revenue) AS average FROM account a ' +
+        'JOIN contact c ON c.parentcustomerid = a.accountid GROUP BY c.jobtitle'
+      );
+      expect(fetchXml).toContain('    <attribute name="revenue" aggregate="avg" alias="average" />');
+      expect(fetchXml).toContain([
+        '    <link-entity name="contact" from="parentcustomerid" to="accountid" link-type="inner" alias="c">',
+        '      <attribute name="jobtitle" groupby="true" alias="c_jobtitle" />'
+      ].join('\n'));
+    });
+
+    it('leaves LIMIT out, as it applies after HAVING', () => {
+      expect(fetchXmlOf(
+        'SELECT statecode, COUNT(*) AS total FROM account GROUP BY statecode HAVING COUNT(*) > 1 LIMIT 5'
+      )).toMatch(/^<fetch aggregate="true">\n/);
+    });
+
+    it('needs the primary key for COUNT(*)', () => {
+      expect(() => fetchXmlBuilder.build(sqlParser.parse('SELECT COUNT(*) AS total FROM account')))
+        .toThrow("COUNT(*) needs the primary key of 'account'");
+    });
+  });
+
+  describe('paging', () => {
+    const query = () => sqlParser.parse('SELECT name FROM account ORDER BY name LIMIT 10');
+
+    it('uses top for LIMIT when fetching everything at once', () => {
+      expect(fetchXmlBuilder.build(query())).toMatch(/^<fetch top="10">\n/);
+    });
+
+    it('asks for one page in place of top', () => {
+      expect(fetchXmlBuilder.build(query(), { paging: { page: 1, count: 5000 } }))
+        .toMatch(/^<fetch page="1" count="5000">\n/);
+    });
+
+    it('passes the paging cookie of the previous page, escaped as an attribute', () => {
+      const pagingCookie = '<cookie page="1"><name last="Contoso &amp; Co" first="A" /></cookie>';
+      expect(fetchXmlBuilder.build(query(), { paging: { page: 2, count: 5000, pagingCookie } })).toMatch(new RegExp(
+        '^<fetch page="2" count="5000" paging-cookie="' +
+        '&lt;cookie page=&quot;1&quot;&gt;' +
+        '&lt;name last=&quot;Contoso &amp;amp; Co&quot; first=&quot;A&quot; /&gt;' +
+        '&lt;/cookie&gt;' +
+        '">\n'
+      ));
+    });
+  });
+
+  describe('query functions', () => {
+    it('uses the negated operator where FetchXML has one', () => {
+      expect(fetchXmlOf('SELECT name FROM account WHERE NOT ownerid = CURRENT_USER()'))
+        .toContain('<condition attribute="ownerid" operator="ne-userid" />');
+    });
+
+    it('excludes the rows matching a date function FetchXML cannot negate', () => {
+      expect(fetchXmlOf('SELECT name FROM account WHERE createdon <> TODAY()')).toBe([
+        '<fetch>',
+        '  <entity name="account">',
+        '    <attribute name="name" />',
+        '    <filter type="and">',
+        '      <filter type="and">',
+        '        <condition entityname="not_today_1" attribute="accountid" operator="null" />',
+        '        <condition attribute="createdon" operator="not-null" />',
+        '      </filter>',
+        '    </filter>',
+        '    <link-entity name="account" from="accountid" to="accountid" link-type="outer" alias="not_today_1">',
+        '      <filter type="and">',
+        '        <condition attribute="createdon" operator="today" />',
+        '      </filter>',
+        '    </link-entity>',
+        '  </entity>',
+        '</fetch>'
+      ].join('\n'));
+    });
+
+    it('keeps the argument of an excluded function', () => {
+      const fetchXml = fetchXmlOf(
+        "SELECT name FROM account WHERE NOT createdon = LAST_X_DAYS(7) OR NOT (modifiedon = THIS_MONTH() AND name = 'A')"
+      );
+      expect(fetchXml).toContain('<condition entityname="not_last_x_days_1" attribute="accountid" operator="null" />');
+      expect(fetchXml).toContain('<condition attribute="createdon" operator="last-x-days" value="7" />');
+      expect(fetchXml).toContain('<condition entityname="not_this_month_2" attribute="accountid" operator="null" />');
+      expect(fetchXml).toContain('<condition attribute="modifiedon" operator="this-month" />');
+      expect(fetchXml).toContain('<condition attribute="name" operator="ne" value="A" />');
+    });
+
+    it('rejects negating a date function on a joined column', () => {
+      expect(() => fetchXmlOf(
+        'SELECT a.name FROM account a JOIN contact c ON c.parentcustomerid = a.accountid WHERE c.createdon <> TODAY()'
+      )).toThrow('TODAY() on a joined column cannot be negated in FetchXML');
+    });
+  });
+});
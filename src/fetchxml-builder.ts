@@ -0,0 +1,449 @@
+/**
+ * FetchXML Builder for Dynamics CRM SQL Query Extension
+ *
+ * Compiles parsed queries into FetchXML for queries OData cannot express
+ */
+
+import { ParsedQuery, ParsedJoin } from './sql-parser';
+import {
+  Expression,
+  ColumnReference,
+  ComparisonOperator,
+  LiteralValue,
+  AggregateFunction,
+  QueryFunctionExpression,
+  QUERY_FUNCTIONS,
+  negate
+} from './sql-ast';
+
+const FETCH_OPERATORS: Record<ComparisonOperator, string> = {
+  '=': 'eq',
+  '<>': 'ne',
+  '<': 'lt',
+  '>': 'gt',
+  '<=': 'le',
+  '>=': 'ge'
+};
+
+// Swapping the operands of a comparison flips its direction
+const REVERSED_OPERATORS: Record<ComparisonOperator, ComparisonOperator> = {
+  '=': '=',
+  '<>': '<>',
+  '<': '>',
+  '>': '<',
+  '<=': '>=',
+  '>=': '<='
+};
+
+const FETCH_AGGREGATES: Record<AggregateFunction, string> = {
+  'COUNT': 'countcolumn',
+  'SUM': 'sum',
+  'AVG': 'avg',
+  'MIN': 'min',
+  'MAX': 'max'
+};
+
+const INDENT = '  ';
+
+export interface FetchXmlPaging {
+  page: number;
+  count: number;
+  // Decoded paging cookie from the previous page
+  pagingCookie?: string;
+}
+
+export interface FetchXmlOptions {
+  // Primary key of the queried table, which COUNT(*) counts
+  primaryIdAttribute?: string;
+  // Fetch one page of results
+  paging?: FetchXmlPaging;
+}
+
+// Filter state shared by the conditions of one query
+interface FilterContext {
+  baseAlias: string;
+  entity: string;
+  primaryIdAttribute?: string;
+  // Conditions whose matching rows are left out through an outer self-join
+  exclusions: { alias: string; expression: QueryFunctionExpression }[];
+}
+
+export class FetchXmlBuilder {
+  /**
+   * Build a FetchXML document for a SELECT query, optionally for one page of results
+   */
+  build(query: ParsedQuery, options: FetchXmlOptions = {}): string {
+    const { paging } = options;
+
+    if (query.operation !== 'SELECT') {
+      throw new Error('Only SELECT queries can be compiled to FetchXML');
+    }
+
+    const baseAlias = query.alias || query.entity;
+    const joins = query.joins || [];
+    const lines: string[] = [];
+
+    // Aggregate queries apply LIMIT after HAVING, in DynamicsApi
+    let fetchAttributes = '';
+    if (query.aggregates) {
+      fetchAttributes = ' aggregate="true"';
+    } else if (paging) {
+      fetchAttributes = ` page="${paging.page}" count="${paging.count}"`;
+      if (paging.pagingCookie) {
+        fetchAttributes += ` paging-cookie="${this.escape(paging.pagingCookie)}"`;
+      }
+    } else if (query.limit !== undefined) {
+      fetchAttributes = ` top="${query.limit}"`;
+    }
+
+    lines.push(`<fetch${fetchAttributes}>`);
+    lines.push(`${INDENT}<entity name="${this.escape(query.entity)}">`);
+
+    this.appendAttributes(lines, query, options, undefined, query.fields, 2);
+    this.appendOrders(lines, query, undefined, 2);
+
+    const context: FilterContext = {
+      baseAlias,
+      entity: query.entity,
+      primaryIdAttribute: options.primaryIdAttribute,
+      exclusions: []
+    };
+    if (query.where) {
+      this.appendFilter(lines, query.where, context, 2);
+    }
+
+    this.appendLinkEntities(lines, query, options, baseAlias, joins, 2);
+    this.appendExclusions(lines, context, 2);
+
+    lines.push(`${INDENT}</entity>`);
+    lines.push('</fetch>');
+
+    return lines.join('\n');
+  }
+
+  private appendAttributes(
+    lines: string[],
+    query: ParsedQuery,
+    options: FetchXmlOptions,
+    alias: string | undefined,
+    fields: string[] | undefined,
+    depth: number
+  ): void {
+    const indent = INDENT.repeat(depth);
+
+    if (query.aggregates) {
+      this.appendAggregateAttributes(lines, query, options, alias, depth);
+      return;
+    }
+
+    if (!fields) {
+      lines.push(`${indent}<all-attributes />`);
+      return;
+    }
+
+    fields.forEach(field => {
+      lines.push(`${indent}<attribute name="${this.escape(field)}" />`);
+    });
+  }
+
+  private appendAggregateAttributes(
+    lines: string[],
+    query: ParsedQuery,
+    options: FetchXmlOptions,
+    alias: string | undefined,
+    depth: number
+  ): void {
+    const indent = INDENT.repeat(depth);
+
+    (query.groupBy || [])
+      .filter(group => group.alias === alias)
+      .forEach(group => {
+        lines.push(
+          `${indent}<attribute name="${this.escape(group.field)}" groupby="true" alias="${this.escape(group.name)}" />`
+        );
+      });
+
+    (query.aggregates || [])
+      .filter(aggregate => aggregate.alias === alias)
+      .forEach(aggregate => {
+        // COUNT(*) counts the primary key
+        const field = aggregate.field || options.primaryIdAttribute;
+        if (!field) {
+          throw new Error(`COUNT(*) needs the primary key of '${query.entity}'`);
+        }
+        const type = aggregate.field ? FETCH_AGGREGATES[aggregate.function] : 'count';
+        const distinct = aggregate.distinct ? ' distinct="true"' : '';
+        lines.push(
+          `${indent}<attribute name="${this.escape(field)}" aggregate="${type}"${distinct} ` +
+          `alias="${this.escape(aggregate.name)}" />`
+        );
+      });
+  }
+
+  private appendOrders(lines: string[], query: ParsedQuery, alias: string | undefined, depth: number): void {
+    const indent = INDENT.repeat(depth);
+
+    // Aggregate results are ordered by result column name
+    if (query.aggregates) {
+      if (alias === undefined) {
+        (query.orderBy || []).forEach(item => {
+          const descending = item.direction === 'desc' ? ' descending="true"' : '';
+          lines.push(`${indent}<order alias="${this.escape(item.field)}"${descending} />`);
+        });
+      }
+      return;
+    }
+
+    (query.orderBy || [])
+      .filter(item => item.alias === alias)
+      .forEach(item => {
+        const descending = item.direction === 'desc' ? ' descending="true"' : '';
+        lines.push(`${indent}<order attribute="${this.escape(item.field)}"${descending} />`);
+      });
+  }
+
+  private appendLinkEntities(
+    lines: string[],
+    query: ParsedQuery,
+    options: FetchXmlOptions,
+    parentAlias: string,
+    joins: ParsedJoin[],
+    depth: number
+  ): void {
+    const indent = INDENT.repeat(depth);
+
+    joins
+      .filter(join => join.toAlias === parentAlias)
+      .forEach(join => {
+        const linkType = join.type === 'LEFT' ? 'outer' : 'inner';
+        lines.push(
+          `${indent}<link-entity name="${this.escape(join.entity)}" from="${this.escape(join.from)}" ` +
+          `to="${this.escape(join.to)}" link-type="${linkType}" alias="${this.escape(join.alias)}">`
+        );
+
+        this.appendAttributes(lines, query, options, join.alias, join.fields, depth + 1);
+        this.appendOrders(lines, query, join.alias, depth + 1);
+        this.appendLinkEntities(lines, query, options, join.alias, joins, depth + 1);
+
+        lines.push(`${indent}</link-entity>`);
+      });
+  }
+
+  private appendFilter(lines: string[], expression: Expression, context: FilterContext, depth: number): void {
+    const indent = INDENT.repeat(depth);
+
+    if (expression.type !== 'Logical') {
+      // FetchXML conditions always live inside a filter element
+      lines.push(`${indent}<filter type="and">`);
+      this.appendCondition(lines, expression, context, depth + 1);
+      lines.push(`${indent}</filter>`);
+      return;
+    }
+
+    lines.push(`${indent}<filter type="${expression.operator.toLowerCase()}">`);
+    this.flattenLogical(expression, expression.operator).forEach(child => {
+      if (child.type === 'Logical') {
+        this.appendFilter(lines, child, context, depth + 1);
+      } else {
+        this.appendCondition(lines, child, context, depth + 1);
+      }
+    });
+    lines.push(`${indent}</filter>`);
+  }
+
+  // Collapse nested ANDs (or ORs) into a single filter element
+  private flattenLogical(expression: Expression, operator: 'AND' | 'OR'): Expression[] {
+    if (expression.type === 'Logical' && expression.operator === operator) {
+      return [
+        ...this.flattenLogical(expression.left, operator),
+        ...this.flattenLogical(expression.right, operator)
+      ];
+    }
+    return [expression];
+  }
+
+  private appendCondition(lines: string[], expression: Expression, context: FilterContext, depth: number): void {
+    const indent = INDENT.repeat(depth);
+
+    switch (expression.type) {
+      case 'Comparison': {
+        let { left, right, operator } = expression;
+        if (left.type === 'Literal' && right.type === 'Column') {
+          [left, right] = [right, left];
+          operator = REVERSED_OPERATORS[operator];
+        }
+        if (left.type !== 'Column' || right.type !== 'Literal') {
+          throw new Error('FetchXML conditions must compare a column with a value');
+        }
+
+        // Comparing with NULL means a null check
+        if (right.value === null && (operator === '=' || operator === '<>')) {
+          const nullOperator = operator === '=' ? 'null' : 'not-null';
+          lines.push(`${indent}<condition ${this.conditionTarget(left, context)} operator="${nullOperator}" />`);
+          return;
+        }
+
+        lines.push(
+          `${indent}<condition ${this.conditionTarget(left, context)} operator="${FETCH_OPERATORS[operator]}" ` +
+          `value="${this.escape(this.formatValue(right.value))}" />`
+        );
+        return;
+      }
+      case 'Like': {
+        const operator = expression.negated ? 'not-like' : 'like';
+        lines.push(
+          `${indent}<condition ${this.conditionTarget(expression.operand, context)} operator="${operator}" ` +
+          `value="${this.escape(expression.pattern)}" />`
+        );
+        return;
+      }
+      case 'In': {
+        const operator = expression.negated ? 'not-in' : 'in';
+        const values = expression.values.map(value => value.value).filter(value => value !== null);
+        if (values.length === expression.values.length) {
+          this.appendValueCondition(lines, expression.operand, operator, values, context, depth);
+          return;
+        }
+
+        // NULL never matches a value list, so it becomes a null check beside it
+        const nullCheck = `<condition ${this.conditionTarget(expression.operand, context)} ` +
+          `operator="${expression.negated ? 'not-null' : 'null'}" />`;
+        if (values.length === 0) {
+          lines.push(`${indent}${nullCheck}`);
+          return;
+        }
+        lines.push(`${indent}<filter type="${expression.negated ? 'and' : 'or'}">`);
+        this.appendValueCondition(lines, expression.operand, operator, values, context, depth + 1);
+        lines.push(`${indent}${INDENT}${nullCheck}`);
+        lines.push(`${indent}</filter>`);
+        return;
+      }
+      case 'Between':
+        this.appendValueCondition(
+          lines,
+          expression.operand,
+          expression.negated ? 'not-between' : 'between',
+          [expression.lower.value, expression.upper.value],
+          context,
+          depth
+        );
+        return;
+      case 'Not': {
+        // FetchXML has no negation element, so push the NOT down to the conditions
+        const negated = negate(expression.operand);
+        if (negated.type === 'Logical') {
+          this.appendFilter(lines, negated, context, depth);
+        } else {
+          this.appendCondition(lines, negated, context, depth);
+        }
+        return;
+      }
+      case 'IsNull': {
+        const operator = expression.negated ? 'not-null' : 'null';
+        lines.push(`${indent}<condition ${this.conditionTarget(expression.operand, context)} operator="${operator}" />`);
+        return;
+      }
+      case 'Function': {
+        const definition = QUERY_FUNCTIONS[expression.function];
+        const operator = expression.negated ? definition.negatedFetchXml : definition.fetchXml;
+        if (!operator) {
+          this.appendExclusion(lines, expression, context, depth);
+          return;
+        }
+        const value = expression.argument
+          ? ` value="${this.escape(this.formatValue(expression.argument.value))}"`
+          : '';
+        lines.push(`${indent}<condition ${this.conditionTarget(expression.operand, context)} operator="${operator}"${value} />`);
+        return;
+      }
+      case 'Logical':
+        this.appendFilter(lines, expression, context, depth);
+        return;
+    }
+  }
+
+  /**
+   * FetchXML cannot negate date functions such as today, so the rows that
+   * match are joined in by primary key and kept only where the join found
+   * nothing. As in SQL, a null column matches neither the function nor its negation.
+   */
+  private appendExclusion(
+    lines: string[],
+    expression: QueryFunctionExpression,
+    context: FilterContext,
+    depth: number
+  ): void {
+    const { operand } = expression;
+    if ((operand.table && operand.table !== context.baseAlias) || !context.primaryIdAttribute) {
+      throw new Error(`${expression.function}() on a joined column cannot be negated in FetchXML`);
+    }
+
+    const alias = `not_${expression.function.toLowerCase()}_${context.exclusions.length + 1}`;
+    context.exclusions.push({ alias, expression: { ...expression, negated: false } });
+
+    const indent = INDENT.repeat(depth);
+    lines.push(`${indent}<filter type="and">`);
+    lines.push(
+      `${indent}${INDENT}<condition entityname="${alias}" ` +
+      `attribute="${this.escape(context.primaryIdAttribute)}" operator="null" />`
+    );
+    lines.push(`${indent}${INDENT}<condition ${this.conditionTarget(operand, context)} operator="not-null" />`);
+    lines.push(`${indent}</filter>`);
+  }
+
+  private appendExclusions(lines: string[], context: FilterContext, depth: number): void {
+    const indent = INDENT.repeat(depth);
+    const primaryId = this.escape(context.primaryIdAttribute || '');
+
+    context.exclusions.forEach(({ alias, expression }) => {
+      lines.push(
+        `${indent}<link-entity name="${this.escape(context.entity)}" from="${primaryId}" to="${primaryId}" ` +
+        `link-type="outer" alias="${alias}">`
+      );
+      this.appendFilter(lines, { ...expression, operand: { ...expression.operand, table: undefined } }, context, depth + 1);
+      lines.push(`${indent}</link-entity>`);
+    });
+  }
+
+  // Multi-valued operators list their values as child elements
+  private appendValueCondition(
+    lines: string[],
+    column: ColumnReference,
+    operator: string,
+    values: LiteralValue[],
+    context: FilterContext,
+    depth: number
+  ): void {
+    const indent = INDENT.repeat(depth);
+    lines.push(`${indent}<condition ${this.conditionTarget(column, context)} operator="${operator}">`);
+    values.forEach(value => {
+      lines.push(`${indent}${INDENT}<value>${this.escape(this.formatValue(value))}</value>`);
+    });
+    lines.push(`${indent}</condition>`);
+  }
+
+  private conditionTarget(column: ColumnReference, context: FilterContext): string {
+    const attribute = `attribute="${this.escape(column.name)}"`;
+    if (column.table && column.table !== context.baseAlias) {
+      return `entityname="${this.escape(column.table)}" ${attribute}`;
+    }
+    return attribute;
+  }
+
+  private formatValue(value: LiteralValue): string {
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    if (typeof value === 'string') return value.replace(/^\{(.*)\}$/, '$1');
+    return String(value);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
+
+export default new FetchXmlBuilder();
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import fetchXmlParser from './fetchxml-parser';
+import fetchXmlBuilder from './fetchxml-builder';
+import sqlFormatter from './sql-formatter';
+import sqlParser from './sql-parser';
+import { AttributeMetadata, AttributeType } from './metadata-service';
+
+function attribute(logicalName: string, attributeType: AttributeType): AttributeMetadata {
+  return {
+    logicalName,
+    attributeType,
+    requiredLevel: 'None',
+    isCustom: false,
+    validForCreate: true,
+    validForUpdate: true
+  };
+}
+
+const ACCOUNT_COLUMNS = [
+  attribute('name', 'String'),
+  attribute('accountnumber', 'String'),
+  attribute('numberofemployees', 'Integer'),
+  attribute('revenue', 'Money'),
+  attribute('donotemail', 'Boolean')
+];
+
+// The SQL a FetchXML document imports as, typed by the account columns above
+function importAsSql(fetchXml: string): string {
+  const { query } = fetchXmlParser.parse(fetchXml);
+  return sqlFormatter.format(fetchXmlParser.applyColumnTypes(query, new Map([['account', ACCOUNT_COLUMNS]])));
+}
+
+describe('FetchXmlParser', () => {
+  describe('values', () => {
+    it('keeps text values as text, leading zeros included', () => {
+      const sql = importAsSql(
+        '<fetch><entity name="account"><attribute name="name" />' +
+        '<filter><condition attribute="accountnumber" operator="eq" value="00123" /></filter>' +
+        '</entity></fetch>'
+      );
+      expect(sql).toContain("accountnumber = '00123'");
+    });
+
+    it('types values of number and boolean columns from metadata', () => {
+      const sql = importAsSql(
+        '<fetch><entity name="account"><attribute name="name" />' +
+        '<filter>' +
+        '<condition attribute="numberofemployees" operator="in"><value>10</value><value>20</value></condition>' +
+        '<condition attribute="revenue" operator="between"><value>1000.5</value><value>2000</value></condition>' +
+        '<condition attribute="donotemail" operator="eq" value="1" />' +
+        '</filter>' +
+        '</entity></fetch>'
+      );
+      expect(sql).toContain('numberofemployees IN (10, 20)');
+      expect(sql).toContain('revenue BETWEEN 1000.5 AND 2000');
+      expect(sql).toContain('donotemail = TRUE');
+    });
+
+    it('leaves values as text when the column is unknown', () => {
+      const { query } = fetchXmlParser.parse(
+        '<fetch><entity name="account"><attribute name="name" />' +
+        '<filter><condition attribute="numberofemployees" operator="gt" value="10" /></filter>' +
+        '</entity></fetch>'
+      );
+      expect(sqlFormatter.format(query)).toContain("numberofemployees > '10'");
+    });
+  });
+
+  it('imports conditions that OData cannot express', () => {
+    const sql = importAsSql(
+      '<fetch><entity name="account"><attribute name="name" />' +
+      '<filter type="or">' +
+      '<condition attribute="name" operator="like" value="%new_%" />' +
+      '<condition attribute="name" operator="like" value="%a%b%" />' +
+      '</filter>' +
+      '</entity></fetch>'
+    );
+    expect(sql).toContain("name LIKE '%new_%' OR name LIKE '%a%b%'");
+  });
+
+  it('keeps values through an import, format and rebuild round trip', () => {
+    const sql = importAsSql(
+      '<fetch top="5"><entity name="account"><attribute name="name" />' +
+      '<filter>' +
+      '<condition attribute="accountnumber" operator="eq" value="007" />' +
+      '<condition attribute="numberofemployees" operator="gt" value="10" />' +
+      '</filter>' +
+      '</entity></fetch>'
+    );
+
+    const fetchXml = fetchXmlBuilder.build(sqlParser.parse(sql));
+    expect(fetchXml).toContain('<condition attribute="accountnumber" operator="eq" value="007" />');
+    expect(fetchXml).toContain('<condition attribute="numberofemployees" operator="gt" value="10" />');
+    expect(fetchXml).toContain('top="5"');
+  });
+});
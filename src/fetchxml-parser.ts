@@ -0,0 +1,452 @@
+/**
+ * FetchXML Parser for Dynamics CRM SQL Query Extension
+ *
+ * Converts FetchXML (e.g. downloaded from Advanced Find) into the query model
+ * produced by the SQL parser, flagging anything that cannot round-trip
+ */
+
+import { ParsedQuery, ParsedJoin, ParsedAggregate, ParsedGroupBy } from './sql-parser';
+import {
+  Expression,
+  ComparisonOperator,
+  LiteralValue,
+  Literal,
+  ColumnReference,
+  QueryFunctionName,
+  QUERY_FUNCTIONS
+} from './sql-ast';
+import { SourcePosition } from './sql-lexer';
+import { AttributeMetadata, AttributeType } from './metadata-service';
+
+export interface FetchXmlImport {
+  query: ParsedQuery;
+  // Constructs that could not be converted and were changed or dropped
+  warnings: string[];
+}
+
+const COMPARISON_OPERATORS: Record<string, ComparisonOperator> = {
+  'eq': '=',
+  'ne': '<>',
+  'neq': '<>',
+  'lt': '<',
+  'gt': '>',
+  'le': '<=',
+  'ge': '>='
+};
+
+const AGGREGATE_FUNCTIONS: Record<string, ParsedAggregate['function']> = {
+  'count': 'COUNT',
+  'countcolumn': 'COUNT',
+  'sum': 'SUM',
+  'avg': 'AVG',
+  'min': 'MIN',
+  'max': 'MAX'
+};
+
+const NUMBER_TYPES: AttributeType[] = ['BigInt', 'Decimal', 'Double', 'Integer', 'Money', 'Picklist', 'State', 'Status'];
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// Imported nodes have no position in the SQL text
+const NO_POSITION: SourcePosition = { offset: 0, line: 1, column: 1 };
+
+interface ImportContext {
+  isAggregate: boolean;
+  fields: string[] | undefined;
+  joins: ParsedJoin[];
+  conditions: Expression[];
+  orderBy: { field: string; direction: string; alias?: string }[];
+  aggregates: ParsedAggregate[];
+  groupBy: ParsedGroupBy[];
+  warnings: string[];
+}
+
+export class FetchXmlParser {
+  /**
+   * Parse a FetchXML document into a SELECT query
+   */
+  parse(fetchXml: string): FetchXmlImport {
+    const document = new DOMParser().parseFromString(fetchXml, 'application/xml');
+
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid FetchXML: the document is not well-formed XML');
+    }
+
+    const fetch = document.documentElement;
+    if (fetch.nodeName !== 'fetch') {
+      throw new Error('Invalid FetchXML: the root element must be <fetch>');
+    }
+
+    const entity = this.children(fetch).find(element => element.nodeName === 'entity');
+    const entityName = entity?.getAttribute('name');
+    if (!entity || !entityName) {
+      throw new Error('Invalid FetchXML: <fetch> must contain an <entity> with a name');
+    }
+
+    const context: ImportContext = {
+      isAggregate: fetch.getAttribute('aggregate') === 'true',
+      fields: [],
+      joins: [],
+      conditions: [],
+      orderBy: [],
+      aggregates: [],
+      groupBy: [],
+      warnings: []
+    };
+
+    if (fetch.getAttribute('distinct') === 'true') {
+      context.warnings.push('distinct="true" has no SQL equivalent and was ignored');
+    }
+    if (fetch.hasAttribute('page') || fetch.hasAttribute('count') || fetch.hasAttribute('paging-cookie')) {
+      context.warnings.push('Paging attributes (page, count, paging-cookie) were ignored; the query tool pages automatically');
+    }
+
+    context.fields = this.readEntity(entity, undefined, entityName, context);
+
+    const query: ParsedQuery = {
+      operation: 'SELECT',
+      entity: entityName
+    };
+
+    if (context.isAggregate) {
+      query.aggregates = context.aggregates;
+      query.fields = context.groupBy.filter(group => !group.alias).map(group => group.field);
+      if (context.groupBy.length > 0) {
+        query.groupBy = context.groupBy;
+      }
+    } else if (context.fields) {
+      query.fields = context.fields;
+    } else if (context.joins.some(join => join.fields)) {
+      context.warnings.push('<all-attributes> with specific link-entity attributes was imported as SELECT *');
+      context.joins.forEach(join => delete join.fields);
+    }
+
+    if (context.joins.length > 0) {
+      query.joins = context.joins;
+    }
+
+    if (context.conditions.length > 0) {
+      // Only formatted back to SQL, so no OData filter is built; not every FetchXML condition has one
+      query.where = context.conditions.reduce((left, right) => ({ type: 'Logical', operator: 'AND', left, right }));
+    }
+
+    if (context.orderBy.length > 0) {
+      query.orderBy = context.orderBy;
+    }
+
+    const top = fetch.getAttribute('top');
+    if (top) {
+      query.limit = parseInt(top, 10);
+    }
+
+    return { query, warnings: context.warnings };
+  }
+
+  /**
+   * Give the values of an imported query the types of the columns they are
+   * compared with, since FetchXML values are all text. Tables are keyed by
+   * alias, with the base table under its name.
+   */
+  applyColumnTypes(query: ParsedQuery, tables: Map<string, AttributeMetadata[]>): ParsedQuery {
+    if (!query.where) {
+      return query;
+    }
+
+    const column = (reference: ColumnReference) =>
+      tables.get(reference.table || query.entity)?.find(attribute => attribute.logicalName === reference.name);
+    return { ...query, where: this.typeExpression(query.where, column) };
+  }
+
+  /**
+   * Read the children of an <entity> or <link-entity>; returns its selected
+   * attributes, or undefined for <all-attributes>
+   */
+  private readEntity(
+    element: Element,
+    alias: string | undefined,
+    entityName: string,
+    context: ImportContext
+  ): string[] | undefined {
+    let fields: string[] | undefined = [];
+    const label = alias ? `link-entity '${alias}'` : `entity '${entityName}'`;
+
+    this.children(element).forEach(child => {
+      switch (child.nodeName) {
+        case 'attribute':
+          if (context.isAggregate) {
+            this.readAggregateAttribute(child, alias, context);
+          } else if (fields) {
+            fields.push(child.getAttribute('name') || '');
+          }
+          break;
+        case 'all-attributes':
+          fields = undefined;
+          break;
+        case 'order':
+          this.readOrder(child, alias, context);
+          break;
+        case 'filter': {
+          const condition = this.readFilter(child, alias, context);
+          if (condition) {
+            if (alias && element.getAttribute('link-type') === 'outer') {
+              context.warnings.push(
+                `The filter inside outer ${label} was moved to WHERE, which excludes rows without a match`
+              );
+            }
+            context.conditions.push(condition);
+          }
+          break;
+        }
+        case 'link-entity':
+          this.readLinkEntity(child, alias || entityName, context);
+          break;
+        default:
+          context.warnings.push(`<${child.nodeName}> in ${label} is not supported and was ignored`);
+      }
+    });
+
+    return fields;
+  }
+
+  private readLinkEntity(element: Element, parentAlias: string, context: ImportContext): void {
+    const entity = element.getAttribute('name') || '';
+    const from = element.getAttribute('from') || '';
+    const to = element.getAttribute('to') || '';
+
+    let alias = element.getAttribute('alias') || entity;
+    // Aliases must be unique in SQL
+    let suffix = 2;
+    while (context.joins.some(join => join.alias === alias)) {
+      alias = `${element.getAttribute('alias') || entity}${suffix++}`;
+    }
+
+    const linkType = element.getAttribute('link-type') || 'inner';
+    if (linkType !== 'inner' && linkType !== 'outer') {
+      context.warnings.push(`link-type="${linkType}" on '${alias}' was imported as INNER JOIN`);
+    }
+
+    const join: ParsedJoin = {
+      type: linkType === 'outer' ? 'LEFT' : 'INNER',
+      entity,
+      alias,
+      from,
+      toAlias: parentAlias,
+      to
+    };
+    context.joins.push(join);
+
+    const fields = this.readEntity(element, alias, entity, context);
+    if (!context.isAggregate) {
+      join.fields = fields;
+    }
+  }
+
+  private readAggregateAttribute(element: Element, alias: string | undefined, context: ImportContext): void {
+    const field = element.getAttribute('name') || '';
+    const name = element.getAttribute('alias') || field;
+    const aggregate = element.getAttribute('aggregate');
+
+    if (element.hasAttribute('dategrouping')) {
+      context.warnings.push(`dategrouping on '${field}' has no SQL equivalent; grouping by the raw value instead`);
+    }
+
+    if (element.getAttribute('groupby') === 'true') {
+      context.groupBy.push({ field, ...(alias ? { alias } : {}), name });
+      return;
+    }
+
+    if (!aggregate || !AGGREGATE_FUNCTIONS[aggregate]) {
+      context.warnings.push(`Attribute '${field}' is neither grouped nor aggregated and was ignored`);
+      return;
+    }
+
+    context.aggregates.push({
+      function: AGGREGATE_FUNCTIONS[aggregate],
+      // aggregate="count" counts rows
+      ...(aggregate !== 'count' ? { field } : {}),
+      ...(alias ? { alias } : {}),
+      distinct: element.getAttribute('distinct') === 'true',
+      name
+    });
+  }
+
+  private readOrder(element: Element, alias: string | undefined, context: ImportContext): void {
+    const direction = element.getAttribute('descending') === 'true' ? 'desc' : 'asc';
+    const attribute = element.getAttribute('attribute');
+    const resultAlias = element.getAttribute('alias');
+
+    if (resultAlias) {
+      context.orderBy.push({ field: resultAlias, direction });
+    } else if (attribute) {
+      context.orderBy.push({ field: attribute, direction, ...(alias ? { alias } : {}) });
+    }
+  }
+
+  private readFilter(element: Element, alias: string | undefined, context: ImportContext): Expression | null {
+    const operator = element.getAttribute('type') === 'or' ? 'OR' : 'AND';
+
+    const parts = this.children(element)
+      .map(child => {
+        if (child.nodeName === 'condition') {
+          return this.readCondition(child, alias, context);
+        }
+        if (child.nodeName === 'filter') {
+          return this.readFilter(child, alias, context);
+        }
+        context.warnings.push(`<${child.nodeName}> inside <filter> is not supported and was ignored`);
+        return null;
+      })
+      .filter((part): part is Expression => part !== null);
+
+    if (parts.length === 0) {
+      return null;
+    }
+
+    return parts.reduce((left, right) => ({ type: 'Logical', operator, left, right }));
+  }
+
+  private readCondition(element: Element, alias: string | undefined, context: ImportContext): Expression | null {
+    const attribute = element.getAttribute('attribute') || '';
+    const operator = element.getAttribute('operator') || '';
+    const value = element.getAttribute('value');
+    const table = element.getAttribute('entityname') || alias;
+
+    const column: ColumnReference = {
+      type: 'Column',
+      ...(table ? { table } : {}),
+      name: attribute,
+      position: NO_POSITION
+    };
+
+    if (COMPARISON_OPERATORS[operator] && value !== null) {
+      return {
+        type: 'Comparison',
+        operator: COMPARISON_OPERATORS[operator],
+        left: column,
+        right: { type: 'Literal', value, position: NO_POSITION }
+      };
+    }
+
+    switch (operator) {
+      case 'like':
+      case 'not-like':
+        return { type: 'Like', operand: column, pattern: value || '', negated: operator === 'not-like' };
+      case 'begins-with':
+      case 'not-begin-with':
+        return { type: 'Like', operand: column, pattern: `${value || ''}%`, negated: operator !== 'begins-with' };
+      case 'ends-with':
+      case 'not-end-with':
+        return { type: 'Like', operand: column, pattern: `%${value || ''}`, negated: operator !== 'ends-with' };
+      case 'in':
+      case 'not-in': {
+        const values = this.readValues(element);
+        if (values.length === 0) break;
+        return { type: 'In', operand: column, values, negated: operator === 'not-in' };
+      }
+      case 'between':
+      case 'not-between': {
+        const values = this.readValues(element);
+        if (values.length !== 2) break;
+        return { type: 'Between', operand: column, lower: values[0], upper: values[1], negated: operator === 'not-between' };
+      }
+      case 'null':
+        return { type: 'IsNull', operand: column, negated: false };
+      case 'not-null':
+        return { type: 'IsNull', operand: column, negated: true };
+    }
+
+    const queryFunction = this.readQueryFunction(column, operator, value);
+    if (queryFunction) {
+      return queryFunction;
+    }
+
+    context.warnings.push(`Condition '${attribute} ${operator}' has no SQL equivalent and was dropped`);
+    return null;
+  }
+
+  // Operators such as last-x-days and eq-userid map to SQL query functions
+  private readQueryFunction(column: ColumnReference, operator: string, value: string | null): Expression | null {
+    for (const [name, definition] of Object.entries(QUERY_FUNCTIONS)) {
+      if (operator !== definition.fetchXml && operator !== definition.negatedFetchXml) {
+        continue;
+      }
+      if (definition.argument && value === null) {
+        return null;
+      }
+      return {
+        type: 'Function',
+        operand: column,
+        function: name as QueryFunctionName,
+        ...(definition.argument
+          ? { argument: { type: 'Literal', value: this.parseArgument(value || ''), position: NO_POSITION } }
+          : {}),
+        negated: operator === definition.negatedFetchXml,
+        position: NO_POSITION
+      };
+    }
+    return null;
+  }
+
+  // Multi-valued conditions list their values as <value> children
+  private readValues(element: Element): Literal[] {
+    return this.children(element)
+      .filter(child => child.nodeName === 'value')
+      .map(child => ({ type: 'Literal', value: child.textContent || '', position: NO_POSITION }));
+  }
+
+  // Function arguments are day counts or GUIDs, whatever the column
+  private parseArgument(value: string): LiteralValue {
+    return NUMBER_PATTERN.test(value) ? Number(value) : value;
+  }
+
+  private typeExpression(
+    expression: Expression,
+    column: (reference: ColumnReference) => AttributeMetadata | undefined
+  ): Expression {
+    const typed = (reference: ColumnReference, literal: Literal): Literal =>
+      ({ ...literal, value: this.typeValue(column(reference), literal.value) });
+
+    switch (expression.type) {
+      case 'Logical':
+        return {
+          ...expression,
+          left: this.typeExpression(expression.left, column),
+          right: this.typeExpression(expression.right, column)
+        };
+      case 'Comparison':
+        return expression.left.type === 'Column' && expression.right.type === 'Literal'
+          ? { ...expression, right: typed(expression.left, expression.right) }
+          : expression;
+      case 'In':
+        return { ...expression, values: expression.values.map(value => typed(expression.operand, value)) };
+      case 'Between':
+        return {
+          ...expression,
+          lower: typed(expression.operand, expression.lower),
+          upper: typed(expression.operand, expression.upper)
+        };
+      default:
+        return expression;
+    }
+  }
+
+  // Text stays text (keeping e.g. leading zeros) unless the column holds numbers or booleans
+  private typeValue(attribute: AttributeMetadata | undefined, value: LiteralValue): LiteralValue {
+    if (!attribute || typeof value !== 'string') {
+      return value;
+    }
+    if (NUMBER_TYPES.includes(attribute.attributeType) && NUMBER_PATTERN.test(value)) {
+      return Number(value);
+    }
+    if (attribute.attributeType === 'Boolean' && ['0', '1', 'true', 'false'].includes(value)) {
+      return value === '1' || value === 'true';
+    }
+    return value;
+  }
+
+  private children(element: Element): Element[] {
+    return Array.from(element.childNodes).filter((node): node is Element => node.nodeType === 1);
+  }
+}
+
+export default new FetchXmlParser();
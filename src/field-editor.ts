@@ -0,0 +1,299 @@
+/**
+ * Field Editor for Dynamics CRM Toolkit
+ *
+ * An input for one column of a record, chosen by the column's type, which
+ * turns what the user enters back into the value the Web API expects
+ */
+
+import { AttributeMetadata, AttributeType, OptionMetadata, isLookupAttribute } from './metadata-service';
+import { RecordReference } from './dynamics-api';
+
+export interface FieldEditorOptions {
+  // Choices of a Picklist, State or Status column
+  options?: OptionMetadata[];
+  // Tables a lookup can point to
+  lookupTargets?: string[];
+  // The formatted current value, such as the name of the record a lookup points to
+  formatted?: string;
+  // Table of the record a lookup points to now
+  lookupTarget?: string;
+  // Suggests records as the user types into a lookup picker
+  searchRecords?: (entity: string, text: string) => Promise<RecordReference[]>;
+  onChange?: () => void;
+}
+
+const TEXT_TYPES: AttributeType[] = ['String', 'Memo'];
+const NUMBER_TYPES: AttributeType[] = ['BigInt', 'Decimal', 'Double', 'Integer', 'Money'];
+const OPTION_SET_TYPES: AttributeType[] = ['Picklist', 'State', 'Status'];
+
+// Date-only columns come as 2024-01-31 rather than a UTC timestamp
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const GUID_PATTERN = /^\{?([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\}?$/i;
+
+// Wait for a pause in typing before searching for lookup records
+const SEARCH_DELAY = 300;
+
+export class FieldEditor {
+  readonly element: HTMLElement;
+  private input: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+  private targetSelect?: HTMLSelectElement;
+  private suggestions = new Map<string, RecordReference>();
+  private reference: RecordReference | null = null;
+  private searchTimer?: number;
+  // What the input showed before any edit, to tell whether it was changed
+  private initialState: string;
+
+  /**
+   * Whether a column can be changed through a FieldEditor
+   */
+  static canEdit(attribute: AttributeMetadata): boolean {
+    const { attributeType } = attribute;
+    return attribute.validForUpdate && (
+      TEXT_TYPES.includes(attributeType) ||
+      NUMBER_TYPES.includes(attributeType) ||
+      OPTION_SET_TYPES.includes(attributeType) ||
+      attributeType === 'Boolean' ||
+      attributeType === 'DateTime' ||
+      isLookupAttribute(attribute)
+    );
+  }
+
+  constructor(
+    private attribute: AttributeMetadata,
+    private original: any,
+    private options: FieldEditorOptions = {}
+  ) {
+    this.element = document.createElement('div');
+    this.element.className = 'field-editor';
+    this.input = this.createInput();
+    this.element.appendChild(this.input);
+
+    this.initialState = this.getState();
+    this.input.addEventListener('input', () => this.options.onChange?.());
+    this.input.addEventListener('change', () => this.options.onChange?.());
+  }
+
+  /**
+   * The value to save, in the form the Web API expects. Lookups give a
+   * RecordReference, or null when cleared.
+   */
+  getValue(): any {
+    const text = this.input.value.trim();
+    const { attributeType, logicalName } = this.attribute;
+
+    if (isLookupAttribute(this.attribute)) {
+      if (text && !this.resolveReference()) {
+        throw new Error(`Pick a ${this.getTarget()} record for ${logicalName}, or enter its ID`);
+      }
+      return text ? this.reference : null;
+    }
+
+    if (text === '') {
+      return null;
+    }
+
+    if (NUMBER_TYPES.includes(attributeType) || OPTION_SET_TYPES.includes(attributeType)) {
+      const number = Number(text);
+      if (Number.isNaN(number)) {
+        throw new Error(`${logicalName} must be a number`);
+      }
+      return number;
+    }
+
+    if (attributeType === 'Boolean') {
+      return text === 'true';
+    }
+
+    if (attributeType === 'DateTime') {
+      return this.input.type === 'date' ? text : new Date(text).toISOString();
+    }
+
+    return this.input.value;
+  }
+
+  /**
+   * Show a value entered earlier, e.g. to keep edits over a reload of the record
+   */
+  setValue(value: any): void {
+    if (isLookupAttribute(this.attribute)) {
+      const reference = value as RecordReference | null;
+      if (reference && this.targetSelect) {
+        this.targetSelect.value = reference.entity;
+      }
+      this.setReference(reference);
+    } else {
+      this.input.value = this.toInputValue(value);
+    }
+  }
+
+  isDirty(): boolean {
+    return this.getState() !== this.initialState;
+  }
+
+  /**
+   * The entered value as the user sees it, for confirming changes
+   */
+  describeValue(): string {
+    if (this.input instanceof HTMLSelectElement) {
+      return this.input.value === '' ? 'null' : this.input.selectedOptions[0].text;
+    }
+
+    const text = this.input.value.trim();
+    if (isLookupAttribute(this.attribute) && text) {
+      return `${text} (${this.getTarget()})`;
+    }
+    return text === '' ? 'null' : text;
+  }
+
+  private createInput(): HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement {
+    const { attributeType } = this.attribute;
+
+    if (isLookupAttribute(this.attribute)) {
+      return this.createLookupPicker();
+    }
+
+    if (OPTION_SET_TYPES.includes(attributeType) || attributeType === 'Boolean') {
+      const select = document.createElement('select');
+      select.add(new Option('', ''));
+      if (attributeType === 'Boolean') {
+        select.add(new Option('true', 'true'));
+        select.add(new Option('false', 'false'));
+      } else {
+        (this.options.options || []).forEach(option => {
+          select.add(new Option(`${option.label} (${option.value})`, String(option.value)));
+        });
+      }
+      select.value = this.toInputValue(this.original);
+      return select;
+    }
+
+    const input = attributeType === 'Memo' ? document.createElement('textarea') : document.createElement('input');
+    if (input instanceof HTMLInputElement) {
+      if (NUMBER_TYPES.includes(attributeType)) {
+        input.type = 'number';
+        input.step = attributeType === 'Integer' || attributeType === 'BigInt' ? '1' : 'any';
+      } else if (attributeType === 'DateTime') {
+        input.type = DATE_ONLY_PATTERN.test(this.original ?? '') ? 'date' : 'datetime-local';
+      } else {
+        input.type = 'text';
+      }
+    }
+    input.value = this.toInputValue(this.original);
+    return input;
+  }
+
+  // A table choice for lookups that can point to more than one, and a name
+  // input that suggests matching records
+  private createLookupPicker(): HTMLInputElement {
+    const targets = this.options.lookupTargets || [];
+    if (targets.length > 1) {
+      this.targetSelect = document.createElement('select');
+      targets.forEach(target => this.targetSelect!.add(new Option(target, target)));
+      this.targetSelect.value = this.options.lookupTarget || targets[0];
+      this.targetSelect.addEventListener('change', () => {
+        this.setReference(null);
+        this.options.onChange?.();
+      });
+      this.element.appendChild(this.targetSelect);
+    }
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.placeholder = 'Name or ID';
+
+    const datalist = document.createElement('datalist');
+    datalist.id = `lookup-${this.attribute.logicalName}`;
+    input.setAttribute('list', datalist.id);
+    this.element.appendChild(datalist);
+
+    input.addEventListener('input', () => {
+      window.clearTimeout(this.searchTimer);
+      this.searchTimer = window.setTimeout(() => this.suggestRecords(datalist), SEARCH_DELAY);
+    });
+
+    if (this.original) {
+      this.reference = {
+        entity: this.options.lookupTarget || targets[0],
+        id: this.original,
+        name: this.options.formatted
+      };
+      input.value = this.options.formatted || this.original;
+    }
+    return input;
+  }
+
+  private async suggestRecords(datalist: HTMLDataListElement): Promise<void> {
+    const text = this.input.value.trim();
+    if (!text || GUID_PATTERN.test(text) || this.suggestions.has(text) || !this.options.searchRecords) {
+      return;
+    }
+
+    try {
+      const records = await this.options.searchRecords(this.getTarget(), text);
+
+      this.showSearchError(null);
+      this.suggestions.clear();
+      datalist.innerHTML = '';
+      records.forEach(record => {
+        // Records with the same name are told apart by their ID
+        let label = record.name || record.id;
+        if (this.suggestions.has(label)) {
+          label = `${label} (${record.id})`;
+        }
+        this.suggestions.set(label, record);
+        datalist.appendChild(new Option(label));
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.showSearchError(`Could not search ${this.getTarget()} records: ${message}`);
+    }
+  }
+
+  // Outline the picker in red, with the reason as its tooltip, until a search succeeds
+  private showSearchError(message: string | null): void {
+    this.input.classList.toggle('search-failed', message !== null);
+    this.input.title = message || '';
+  }
+
+  // The record the lookup input names: a suggestion, a pasted ID or the current value
+  private resolveReference(): RecordReference | null {
+    const text = this.input.value.trim();
+    const target = this.getTarget();
+    const guid = GUID_PATTERN.exec(text);
+
+    if (this.suggestions.has(text)) {
+      this.reference = this.suggestions.get(text)!;
+    } else if (guid) {
+      this.reference = { entity: target, id: guid[1].toLowerCase() };
+    } else if (!this.reference || this.reference.entity !== target || (this.reference.name || this.reference.id) !== text) {
+      this.reference = null;
+    }
+    return this.reference;
+  }
+
+  private setReference(reference: RecordReference | null): void {
+    this.reference = reference;
+    this.input.value = reference ? reference.name || reference.id : '';
+  }
+
+  private getTarget(): string {
+    return this.targetSelect?.value || this.options.lookupTargets?.[0] || '';
+  }
+
+  private getState(): string {
+    return `${this.targetSelect?.value || ''}|${this.input.value.trim()}`;
+  }
+
+  private toInputValue(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (this.attribute.attributeType === 'DateTime' && !DATE_ONLY_PATTERN.test(value)) {
+      // datetime-local shows local time without a zone
+      const date = new Date(value);
+      return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+    }
+    return String(value);
+  }
+}
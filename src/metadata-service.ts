@@ -0,0 +1,346 @@
+/**
+ * Metadata Service for Dynamics CRM Toolkit
+ *
+ * Reads table and column definitions from the Web API and caches them per organization
+ */
+
+import webApiClient from './web-api-client';
+
+export interface EntityMetadata {
+  logicalName: string;
+  entitySetName: string;
+  primaryIdAttribute: string;
+  // Not every table has a name column
+  primaryNameAttribute?: string;
+}
+
+export type AttributeType =
+  | 'BigInt'
+  | 'Boolean'
+  | 'CalendarRules'
+  | 'Customer'
+  | 'DateTime'
+  | 'Decimal'
+  | 'Double'
+  | 'EntityName'
+  | 'Integer'
+  | 'Lookup'
+  | 'ManagedProperty'
+  | 'Memo'
+  | 'Money'
+  | 'Owner'
+  | 'PartyList'
+  | 'Picklist'
+  | 'State'
+  | 'Status'
+  | 'String'
+  | 'Uniqueidentifier'
+  | 'Virtual';
+
+export type RequiredLevel = 'None' | 'Recommended' | 'ApplicationRequired' | 'SystemRequired';
+
+export interface AttributeMetadata {
+  logicalName: string;
+  // Label in the user's language, when the column has one
+  displayName?: string;
+  attributeType: AttributeType;
+  requiredLevel: RequiredLevel;
+  isCustom: boolean;
+  validForCreate: boolean;
+  validForUpdate: boolean;
+}
+
+/**
+ * A lookup on a table and the navigation property that sets it
+ */
+export interface LookupRelationship {
+  navigationProperty: string;
+  // The lookup column on this table
+  referencingAttribute: string;
+  referencedEntity: string;
+}
+
+export type RelationshipType = 'OneToMany' | 'ManyToOne' | 'ManyToMany';
+
+/**
+ * A relationship of a table, seen from that table
+ */
+export interface RelationshipMetadata {
+  schemaName: string;
+  type: RelationshipType;
+  // The table on the other side
+  relatedEntity: string;
+  // The lookup column: on the related table for one-to-many, on this table for many-to-one
+  lookupAttribute?: string;
+  // Many-to-many only: the related table's navigation property back to this
+  // table, and the intersect table with a column for each side
+  relatedNavigationProperty?: string;
+  intersectEntity?: string;
+  intersectAttribute?: string;
+  relatedIntersectAttribute?: string;
+}
+
+export interface OptionMetadata {
+  value: number;
+  label: string;
+}
+
+/**
+ * The choices of a Picklist, State or Status column
+ */
+export interface OptionSetMetadata {
+  attribute: string;
+  options: OptionMetadata[];
+}
+
+/**
+ * Lookups are read as _name_value in OData and set through navigation properties
+ */
+export function isLookupAttribute(attribute: AttributeMetadata): boolean {
+  return attribute.attributeType === 'Lookup' ||
+    attribute.attributeType === 'Customer' ||
+    attribute.attributeType === 'Owner';
+}
+
+interface CachedMetadata<T> {
+  loadedOn: number;
+  version: number;
+  items: T[];
+}
+
+// Bumped whenever the cached shapes change, so older entries are reloaded
+const CACHE_VERSION = 3;
+
+// Table definitions rarely change, so a day-old cache is fine
+const CACHE_LIFETIME = 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY = 'entityMetadata';
+
+export class MetadataService {
+  // Keyed by org URL, or org URL and table for attributes
+  private requests = new Map<string, Promise<any[]>>();
+
+  /**
+   * Get the definitions of every table in an organization
+   */
+  getEntities(orgUrl: string): Promise<EntityMetadata[]> {
+    return this.load(orgUrl, () => this.fetchEntities(orgUrl));
+  }
+
+  /**
+   * Find a table by logical name or entity set name
+   */
+  async getEntity(orgUrl: string, name: string): Promise<EntityMetadata> {
+    const entities = await this.getEntities(orgUrl);
+    const lowerName = name.toLowerCase();
+
+    const entity = entities.find(item => item.logicalName === lowerName) ||
+      entities.find(item => item.entitySetName.toLowerCase() === lowerName);
+
+    if (!entity) {
+      throw new Error(`Unknown table '${name}'`);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Get the queryable columns of a table
+   */
+  getAttributes(orgUrl: string, logicalName: string): Promise<AttributeMetadata[]> {
+    return this.load(`${orgUrl}|${logicalName}`, () => this.fetchAttributes(orgUrl, logicalName));
+  }
+
+  /**
+   * Get the lookups of a table, with the navigation properties that set them
+   */
+  getLookupRelationships(orgUrl: string, logicalName: string): Promise<LookupRelationship[]> {
+    return this.load(`${orgUrl}|${logicalName}|lookups`, () => this.fetchLookupRelationships(orgUrl, logicalName));
+  }
+
+  /**
+   * Get the one-to-many, many-to-one and many-to-many relationships of a table
+   */
+  getRelationships(orgUrl: string, logicalName: string): Promise<RelationshipMetadata[]> {
+    return this.load(`${orgUrl}|${logicalName}|relationships`, () => this.fetchRelationships(orgUrl, logicalName));
+  }
+
+  /**
+   * Get the choices of every option set column of a table
+   */
+  getOptionSets(orgUrl: string, logicalName: string): Promise<OptionSetMetadata[]> {
+    return this.load(`${orgUrl}|${logicalName}|options`, () => this.fetchOptionSets(orgUrl, logicalName));
+  }
+
+  /**
+   * Forget the cached definitions, e.g. after new tables or columns were published
+   */
+  async clearCache(orgUrl: string): Promise<void> {
+    const isOrgKey = (key: string) => key === orgUrl || key.startsWith(`${orgUrl}|`);
+
+    Array.from(this.requests.keys()).filter(isOrgKey).forEach(key => this.requests.delete(key));
+
+    const storage = await chrome.storage.local.get([STORAGE_KEY]);
+    const cache: Record<string, CachedMetadata<unknown>> = storage[STORAGE_KEY] || {};
+    Object.keys(cache).filter(isOrgKey).forEach(key => delete cache[key]);
+    await chrome.storage.local.set({ [STORAGE_KEY]: cache });
+  }
+
+  // Share one request per key, backed by a cache in extension storage
+  private load<T>(key: string, fetchItems: () => Promise<T[]>): Promise<T[]> {
+    let request = this.requests.get(key);
+    if (!request) {
+      request = this.loadFromStorage(key, fetchItems);
+      // Let a failed load be retried
+      request.catch(() => this.requests.delete(key));
+      this.requests.set(key, request);
+    }
+    return request;
+  }
+
+  private async loadFromStorage<T>(key: string, fetchItems: () => Promise<T[]>): Promise<T[]> {
+    const storage = await chrome.storage.local.get([STORAGE_KEY]);
+    const cached: CachedMetadata<T> | undefined = (storage[STORAGE_KEY] || {})[key];
+
+    if (cached && cached.version === CACHE_VERSION && Date.now() - cached.loadedOn < CACHE_LIFETIME) {
+      return cached.items;
+    }
+
+    const items = await fetchItems();
+
+    // Re-read the cache, since other keys may have been stored meanwhile
+    const latest = await chrome.storage.local.get([STORAGE_KEY]);
+    const cache: Record<string, CachedMetadata<unknown>> = latest[STORAGE_KEY] || {};
+    cache[key] = { loadedOn: Date.now(), version: CACHE_VERSION, items };
+    await chrome.storage.local.set({ [STORAGE_KEY]: cache });
+
+    return items;
+  }
+
+  private async fetchEntities(orgUrl: string): Promise<EntityMetadata[]> {
+    const result = await this.fetchMetadata(
+      `${orgUrl}/api/data/v9.2/EntityDefinitions?$select=LogicalName,EntitySetName,PrimaryIdAttribute,PrimaryNameAttribute`
+    );
+
+    // Some internal tables cannot be queried through the Web API
+    return (result.value || [])
+      .filter((item: any) => item.EntitySetName)
+      .map((item: any) => ({
+        logicalName: item.LogicalName,
+        entitySetName: item.EntitySetName,
+        primaryIdAttribute: item.PrimaryIdAttribute,
+        primaryNameAttribute: item.PrimaryNameAttribute || undefined
+      }));
+  }
+
+  private async fetchAttributes(orgUrl: string, logicalName: string): Promise<AttributeMetadata[]> {
+    const result = await this.fetchMetadata(
+      `${orgUrl}/api/data/v9.2/EntityDefinitions(LogicalName='${logicalName}')/Attributes` +
+      '?$select=LogicalName,DisplayName,AttributeType,AttributeOf,RequiredLevel,IsCustomAttribute,' +
+      'IsValidForRead,IsValidForCreate,IsValidForUpdate'
+    );
+
+    // Columns that belong to another column (e.g. the name of a lookup) cannot be queried
+    return (result.value || [])
+      .filter((item: any) => !item.AttributeOf && item.IsValidForRead !== false)
+      .map((item: any) => ({
+        logicalName: item.LogicalName,
+        displayName: item.DisplayName?.UserLocalizedLabel?.Label || undefined,
+        attributeType: item.AttributeType,
+        requiredLevel: item.RequiredLevel?.Value || 'None',
+        isCustom: item.IsCustomAttribute === true,
+        validForCreate: item.IsValidForCreate === true,
+        validForUpdate: item.IsValidForUpdate === true
+      }));
+  }
+
+  private async fetchLookupRelationships(orgUrl: string, logicalName: string): Promise<LookupRelationship[]> {
+    const result = await this.fetchMetadata(
+      `${orgUrl}/api/data/v9.2/EntityDefinitions(LogicalName='${logicalName}')/ManyToOneRelationships` +
+      '?$select=ReferencingEntityNavigationPropertyName,ReferencingAttribute,ReferencedEntity'
+    );
+
+    return (result.value || []).map((item: any) => ({
+      navigationProperty: item.ReferencingEntityNavigationPropertyName,
+      referencingAttribute: item.ReferencingAttribute,
+      referencedEntity: item.ReferencedEntity
+    }));
+  }
+
+  private async fetchRelationships(orgUrl: string, logicalName: string): Promise<RelationshipMetadata[]> {
+    const baseUrl = `${orgUrl}/api/data/v9.2/EntityDefinitions(LogicalName='${logicalName}')`;
+    const [oneToMany, manyToOne, manyToMany] = await Promise.all([
+      this.fetchMetadata(`${baseUrl}/OneToManyRelationships?$select=SchemaName,ReferencingEntity,ReferencingAttribute`),
+      this.fetchMetadata(`${baseUrl}/ManyToOneRelationships?$select=SchemaName,ReferencedEntity,ReferencingAttribute`),
+      this.fetchMetadata(
+        `${baseUrl}/ManyToManyRelationships?$select=SchemaName,Entity1LogicalName,Entity2LogicalName,` +
+        'Entity1NavigationPropertyName,Entity2NavigationPropertyName,IntersectEntityName,' +
+        'Entity1IntersectAttribute,Entity2IntersectAttribute'
+      )
+    ]);
+
+    return [
+      ...(oneToMany.value || []).map((item: any): RelationshipMetadata => ({
+        schemaName: item.SchemaName,
+        type: 'OneToMany',
+        relatedEntity: item.ReferencingEntity,
+        lookupAttribute: item.ReferencingAttribute
+      })),
+      ...(manyToOne.value || []).map((item: any): RelationshipMetadata => ({
+        schemaName: item.SchemaName,
+        type: 'ManyToOne',
+        relatedEntity: item.ReferencedEntity,
+        lookupAttribute: item.ReferencingAttribute
+      })),
+      // This table may be either side; a table related to itself is seen from the first
+      ...(manyToMany.value || []).map((item: any): RelationshipMetadata => {
+        const first = item.Entity1LogicalName === logicalName;
+        return {
+          schemaName: item.SchemaName,
+          type: 'ManyToMany',
+          relatedEntity: first ? item.Entity2LogicalName : item.Entity1LogicalName,
+          relatedNavigationProperty: first ? item.Entity2NavigationPropertyName : item.Entity1NavigationPropertyName,
+          intersectEntity: item.IntersectEntityName,
+          intersectAttribute: first ? item.Entity1IntersectAttribute : item.Entity2IntersectAttribute,
+          relatedIntersectAttribute: first ? item.Entity2IntersectAttribute : item.Entity1IntersectAttribute
+        };
+      })
+    ];
+  }
+
+  // Each kind of option set column has its own metadata type
+  private async fetchOptionSets(orgUrl: string, logicalName: string): Promise<OptionSetMetadata[]> {
+    const metadataTypes = ['PicklistAttributeMetadata', 'StateAttributeMetadata', 'StatusAttributeMetadata'];
+
+    const results = await Promise.all(metadataTypes.map(type => this.fetchMetadata(
+      `${orgUrl}/api/data/v9.2/EntityDefinitions(LogicalName='${logicalName}')/Attributes/Microsoft.Dynamics.CRM.${type}` +
+      '?$select=LogicalName&$expand=OptionSet($select=Options),GlobalOptionSet($select=Options)'
+    )));
+
+    return results.flatMap(result => (result.value || []).map((item: any) => {
+      const optionSet = item.OptionSet || item.GlobalOptionSet;
+      return {
+        attribute: item.LogicalName,
+        options: (optionSet?.Options || []).map((option: any) => ({
+          value: option.Value,
+          label: option.Label?.UserLocalizedLabel?.Label ?? String(option.Value)
+        }))
+      };
+    }));
+  }
+
+  private async fetchMetadata(url: string): Promise<any> {
+    const response = await webApiClient.request(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'OData-MaxVersion': '4.0',
+        'OData-Version': '4.0'
+      }
+    });
+
+    return response.json();
+  }
+}
+
+export default new MetadataService();
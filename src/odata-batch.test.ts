@@ -0,0 +1,152 @@
+import odataBatchBuilder from './odata-batch';
+import { ApiRequest } from './api-request';
+
+const REQUESTS: ApiRequest[] = [
+  {
+    method: 'PATCH',
+    url: 'https://contoso.crm.dynamics.com/api/data/v9.2/accounts(1)',
+    headers: { 'Content-Type': 'application/json', 'If-Match': '*' },
+    body: { name: 'A' }
+  },
+  {
+    method: 'DELETE',
+    url: 'https://contoso.crm.dynamics.com/api/data/v9.2/accounts(2)',
+    headers: {}
+  }
+];
+
+// A batch response holding one changeset response, as Dataverse sends it
+function batchResponse(parts: string[]): string {
+  return [
+    '--batchresponse_1',
+    'Content-Type: multipart/mixed; boundary=changesetresponse_1',
+    '',
+    ...parts.flatMap(part => ['--changesetresponse_1', part]),
+    '--changesetresponse_1--',
+    '--batchresponse_1--',
+    ''
+  ].join('\r\n');
+}
+
+function partResponse(contentId: string, statusLine: string, body = ''): string {
+  return [
+    'Content-Type: application/http',
+    'Content-Transfer-Encoding: binary',
+    `Content-ID: ${contentId}`,
+    '',
+    statusLine,
+    'OData-Version: 4.0',
+    '',
+    body
+  ].join('\r\n');
+}
+
+describe('ODataBatchBuilder', () => {
+  describe('build', () => {
+    beforeEach(() => {
+      let next = 0;
+      jest.spyOn(crypto, 'randomUUID').mockImplementation(() => `0000000${++next}-0000-0000-0000-000000000000`);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('writes every request into one changeset, numbered by Content-ID', () => {
+      const batch = odataBatchBuilder.build(REQUESTS);
+
+      expect(batch.contentType).toBe('multipart/mixed; boundary=batch_00000001-0000-0000-0000-000000000000');
+      expect(batch.body.split('\r\n')).toEqual([
+        '--batch_00000001-0000-0000-0000-000000000000',
+        'Content-Type: multipart/mixed; boundary=changeset_00000002-0000-0000-0000-000000000000',
+        '',
+        '--changeset_00000002-0000-0000-0000-000000000000',
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        'Content-ID: 1',
+        '',
+        'PATCH https://contoso.crm.dynamics.com/api/data/v9.2/accounts(1) HTTP/1.1',
+        'Content-Type: application/json',
+        'If-Match: *',
+        '',
+        '{"name":"A"}',
+        '--changeset_00000002-0000-0000-0000-000000000000',
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        'Content-ID: 2',
+        '',
+        'DELETE https://contoso.crm.dynamics.com/api/data/v9.2/accounts(2) HTTP/1.1',
+        '',
+        '',
+        '--changeset_00000002-0000-0000-0000-000000000000--',
+        '',
+        '--batch_00000001-0000-0000-0000-000000000000--',
+        ''
+      ]);
+    });
+  });
+
+  describe('parse', () => {
+    it('reads the responses nested in a changeset response', () => {
+      const responses = odataBatchBuilder.parse(batchResponse([
+        partResponse('1', 'HTTP/1.1 204 No Content'),
+        partResponse('2', 'HTTP/1.1 204 No Content')
+      ]));
+
+      expect(responses).toEqual([
+        { contentId: '1', status: 204, body: '' },
+        { contentId: '2', status: 204, body: '' }
+      ]);
+    });
+
+    it('keeps the body of a failed response', () => {
+      const error = '{"error":{"code":"0x80040217","message":"account With Id = 2 Does Not Exist"}}';
+      const responses = odataBatchBuilder.parse(batchResponse([
+        partResponse('2', 'HTTP/1.1 404 Not Found', error)
+      ]));
+
+      expect(responses).toEqual([{ contentId: '2', status: 404, body: error }]);
+    });
+  });
+
+  describe('readOutcomes', () => {
+    it('reports every request as succeeded when nothing failed', () => {
+      const responses = odataBatchBuilder.parse(batchResponse([
+        partResponse('1', 'HTTP/1.1 204 No Content'),
+        partResponse('2', 'HTTP/1.1 204 No Content')
+      ]));
+
+      expect(odataBatchBuilder.readOutcomes(2, responses)).toEqual([
+        { status: 'Succeeded' },
+        { status: 'Succeeded' }
+      ]);
+    });
+
+    it('fails the request named by Content-ID and rolls back the rest', () => {
+      const responses = odataBatchBuilder.parse(batchResponse([
+        partResponse('2', 'HTTP/1.1 404 Not Found', '{"error":{"code":"0x80040217","message":"account Does Not Exist"}}')
+      ]));
+
+      expect(odataBatchBuilder.readOutcomes(3, responses)).toEqual([
+        { status: 'Rolled back', error: 'Not applied because another change in its batch failed' },
+        { status: 'Failed', error: 'account Does Not Exist' },
+        { status: 'Rolled back', error: 'Not applied because another change in its batch failed' }
+      ]);
+    });
+
+    it('fails every request when the failure names none', () => {
+      const responses = odataBatchBuilder.parse([
+        '--batchresponse_1',
+        'Content-Type: application/http',
+        '',
+        'HTTP/1.1 400 Bad Request',
+        '',
+        'Malformed batch',
+        '--batchresponse_1--'
+      ].join('\r\n'));
+
+      expect(odataBatchBuilder.readOutcomes(2, responses)).toEqual([
+        { status: 'Failed', error: 'HTTP error 400: Malformed batch' },
+        { status: 'Failed', error: 'HTTP error 400: Malformed batch' }
+      ]);
+    });
+  });
+});
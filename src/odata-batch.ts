@@ -0,0 +1,114 @@
+/**
+ * OData Batch Builder for Dynamics CRM Toolkit
+ *
+ * Writes $batch request bodies and reads their multipart responses
+ */
+
+import { ApiRequest } from './api-request';
+import webApiClient from './web-api-client';
+
+export interface BatchPart {
+  body: string;
+  contentType: string;
+}
+
+export interface BatchPartResponse {
+  // Content-ID of the request the response belongs to
+  contentId?: string;
+  status: number;
+  body: string;
+}
+
+export interface BatchOutcome {
+  // Rolled back requests were in a changeset where another request failed
+  status: 'Succeeded' | 'Failed' | 'Rolled back';
+  error?: string;
+}
+
+export class ODataBatchBuilder {
+  /**
+   * Write requests as a single changeset, so they are applied all or nothing.
+   * Each request gets its 1-based position as Content-ID.
+   */
+  build(requests: ApiRequest[]): BatchPart {
+    const batchBoundary = `batch_${crypto.randomUUID()}`;
+    const changesetBoundary = `changeset_${crypto.randomUUID()}`;
+
+    const lines = [
+      `--${batchBoundary}`,
+      `Content-Type: multipart/mixed; boundary=${changesetBoundary}`,
+      ''
+    ];
+
+    requests.forEach((request, index) => {
+      lines.push(
+        `--${changesetBoundary}`,
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        `Content-ID: ${index + 1}`,
+        '',
+        `${request.method} ${request.url} HTTP/1.1`,
+        ...Object.entries(request.headers).map(([name, value]) => `${name}: ${value}`),
+        '',
+        request.body ? JSON.stringify(request.body) : ''
+      );
+    });
+
+    lines.push(`--${changesetBoundary}--`, '', `--${batchBoundary}--`, '');
+
+    return {
+      body: lines.join('\r\n'),
+      contentType: `multipart/mixed; boundary=${batchBoundary}`
+    };
+  }
+
+  /**
+   * Read the responses in a batch response, including those nested in
+   * changeset responses. A failed changeset only answers the failing request.
+   */
+  parse(responseText: string): BatchPartResponse[] {
+    const responses: BatchPartResponse[] = [];
+
+    // Splitting on every boundary line flattens nested changesets
+    responseText.split(/^--.*$/m).forEach(part => {
+      const statusLine = part.match(/^HTTP\/\d\.\d (\d{3})/m);
+      if (!statusLine || statusLine.index === undefined) {
+        return;
+      }
+
+      const contentId = part.slice(0, statusLine.index).match(/^Content-ID:\s*(\S+)/mi);
+
+      // The body follows the blank line after the response headers
+      const response = part.slice(statusLine.index);
+      const bodyStart = response.search(/\r?\n\r?\n/);
+
+      responses.push({
+        contentId: contentId ? contentId[1] : undefined,
+        status: parseInt(statusLine[1], 10),
+        body: bodyStart === -1 ? '' : response.slice(bodyStart).trim()
+      });
+    });
+
+    return responses;
+  }
+
+  /**
+   * The outcome of each request of a changeset built by build(), in order.
+   * A failed changeset is rolled back and only the failing request is answered.
+   */
+  readOutcomes(requestCount: number, responses: BatchPartResponse[]): BatchOutcome[] {
+    const requests = Array.from({ length: requestCount }, (_, index) => String(index + 1));
+
+    const failure = responses.find(response => response.status >= 400);
+    if (!failure) {
+      return requests.map(() => ({ status: 'Succeeded' }));
+    }
+
+    const error = webApiClient.createError(failure.status, failure.body).message;
+    return requests.map(contentId => failure.contentId === undefined || failure.contentId === contentId
+      ? { status: 'Failed', error }
+      : { status: 'Rolled back', error: 'Not applied because another change in its batch failed' });
+  }
+}
+
+export default new ODataBatchBuilder();
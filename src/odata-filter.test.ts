@@ -0,0 +1,146 @@
+import odataFilterBuilder from './odata-filter';
+import sqlParser from './sql-parser';
+import { SelectStatement } from './sql-ast';
+import { AttributeType } from './metadata-service';
+
+const COLUMN_TYPES: Record<string, AttributeType> = {
+  name: 'String',
+  createdon: 'DateTime'
+};
+
+// The $filter a WHERE clause translates to
+function filterOf(where: string): string {
+  const statement = sqlParser.parseStatement(`SELECT name FROM account WHERE ${where}`) as SelectStatement;
+  return odataFilterBuilder.build(statement.where!, undefined, column => COLUMN_TYPES[column.name]);
+}
+
+describe('ODataFilterBuilder', () => {
+  describe('LIKE', () => {
+    it('translates a trailing wildcard to startswith', () => {
+      expect(filterOf("name LIKE 'Con%'")).toBe("startswith(name,'Con')");
+    });
+
+    it('translates a leading wildcard to endswith', () => {
+      expect(filterOf("name LIKE '%Ltd'")).toBe("endswith(name,'Ltd')");
+    });
+
+    it('translates wildcards on both ends to contains', () => {
+      expect(filterOf("name LIKE '%oso%'")).toBe("contains(name,'oso')");
+    });
+
+    it('compares a pattern without wildcards for equality', () => {
+      expect(filterOf("name LIKE 'Contoso'")).toBe("name eq 'Contoso'");
+    });
+
+    it('negates NOT LIKE', () => {
+      expect(filterOf("name NOT LIKE 'Con%'")).toBe("not startswith(name,'Con')");
+    });
+
+    it('escapes quotes in the pattern', () => {
+      expect(filterOf("name LIKE 'O''Brien%'")).toBe("startswith(name,'O''Brien')");
+    });
+
+    it('rejects a wildcard in the middle', () => {
+      expect(() => filterOf("name LIKE 'Con%so'")).toThrow('wildcard in the middle');
+    });
+
+    it('rejects the _ wildcard, which FetchXML would match against any character', () => {
+      expect(() => filterOf("name LIKE 'new_%'")).toThrow('_ wildcard');
+    });
+
+    it('matches an escaped [_] as an underscore', () => {
+      expect(filterOf("name LIKE 'new[_]%'")).toBe("startswith(name,'new_')");
+    });
+  });
+
+  describe('IN', () => {
+    it('translates to the In query function', () => {
+      expect(filterOf("name IN ('A', 'B')"))
+        .toBe("Microsoft.Dynamics.CRM.In(PropertyName='name',PropertyValues=['A','B'])");
+    });
+
+    it('quotes numbers, as query function parameters are strings', () => {
+      expect(filterOf('statecode IN (0, 1)'))
+        .toBe("Microsoft.Dynamics.CRM.In(PropertyName='statecode',PropertyValues=['0','1'])");
+    });
+
+    it('translates NOT IN to the NotIn query function', () => {
+      expect(filterOf("name NOT IN ('A', 'B')"))
+        .toBe("Microsoft.Dynamics.CRM.NotIn(PropertyName='name',PropertyValues=['A','B'])");
+    });
+
+    it('checks NULL separately from the listed values', () => {
+      expect(filterOf("name IN ('A', NULL)"))
+        .toBe("Microsoft.Dynamics.CRM.In(PropertyName='name',PropertyValues=['A']) or name eq null");
+      expect(filterOf("name NOT IN ('A', NULL)"))
+        .toBe("Microsoft.Dynamics.CRM.NotIn(PropertyName='name',PropertyValues=['A']) and name ne null");
+    });
+
+    it('parenthesises the NULL check inside an AND', () => {
+      expect(filterOf("name IN ('A', NULL) AND revenue > 5"))
+        .toBe("(Microsoft.Dynamics.CRM.In(PropertyName='name',PropertyValues=['A']) or name eq null) and revenue gt 5");
+    });
+
+    it('translates a list of only NULL to a null check', () => {
+      expect(filterOf('name IN (NULL)')).toBe('name eq null');
+      expect(filterOf('name NOT IN (NULL)')).toBe('name ne null');
+    });
+  });
+
+  describe('BETWEEN', () => {
+    it('translates to a ge/le pair', () => {
+      expect(filterOf('revenue BETWEEN 100 AND 200')).toBe('revenue ge 100 and revenue le 200');
+    });
+
+    it('translates NOT BETWEEN to an lt/gt pair', () => {
+      expect(filterOf('revenue NOT BETWEEN 100 AND 200')).toBe('revenue lt 100 or revenue gt 200');
+    });
+
+    it('parenthesises NOT BETWEEN inside an AND', () => {
+      expect(filterOf("revenue NOT BETWEEN 100 AND 200 AND name = 'A'"))
+        .toBe("(revenue lt 100 or revenue gt 200) and name eq 'A'");
+    });
+  });
+
+  describe('dates', () => {
+    it('compares DateTime columns with unquoted dates', () => {
+      expect(filterOf("createdon >= '2024-01-01'")).toBe('createdon ge 2024-01-01');
+      expect(filterOf("'2024-12-31' > createdon")).toBe('createdon lt 2024-12-31');
+    });
+
+    it('translates BETWEEN on a DateTime column to unquoted bounds', () => {
+      expect(filterOf("createdon BETWEEN '2024-01-01' AND '2024-12-31'"))
+        .toBe('createdon ge 2024-01-01 and createdon le 2024-12-31');
+    });
+
+    it('takes a time without a zone as UTC', () => {
+      expect(filterOf("createdon < '2024-01-31T08:30:00'")).toBe('createdon lt 2024-01-31T08:30:00Z');
+      expect(filterOf("createdon < '2024-01-31T08:30:00+02:00'")).toBe('createdon lt 2024-01-31T08:30:00+02:00');
+    });
+
+    it('keeps dates quoted for text columns', () => {
+      expect(filterOf("name = '2024-01-01'")).toBe("name eq '2024-01-01'");
+    });
+  });
+
+  describe('NOT', () => {
+    it('negates a comparison', () => {
+      expect(filterOf("NOT name = 'A'")).toBe("not (name eq 'A')");
+    });
+
+    it('negates a whole OR group', () => {
+      expect(filterOf("NOT (name = 'A' OR name = 'B')")).toBe("not (name eq 'A' or name eq 'B')");
+    });
+
+    it('binds tighter than AND', () => {
+      expect(filterOf("NOT name = 'A' AND revenue > 5")).toBe("not (name eq 'A') and revenue gt 5");
+    });
+
+    it('keeps an OR inside an AND parenthesised', () => {
+      expect(filterOf("NOT (name = 'A' OR name = 'B') AND revenue > 5"))
+        .toBe("not (name eq 'A' or name eq 'B') and revenue gt 5");
+      expect(filterOf("(name = 'A' OR name = 'B') AND NOT revenue > 5"))
+        .toBe("(name eq 'A' or name eq 'B') and not (revenue gt 5)");
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * OData Filter Builder for Dynamics CRM SQL Query Extension
+ *
+ * Translates WHERE clause expressions into Web API $filter strings
+ */
+
+import {
+  Expression,
+  LiteralValue,
+  Literal,
+  Operand,
+  ColumnReference,
+  ComparisonOperator,
+  QueryFunctionExpression,
+  QUERY_FUNCTIONS
+} from './sql-ast';
+import { AttributeType } from './metadata-service';
+
+// Maps a column reference to the property path used in the filter
+export type ColumnFormatter = (column: ColumnReference) => string;
+
+// Looks up the type of a column, when its metadata is known
+export type ColumnTypeResolver = (column: ColumnReference) => AttributeType | undefined;
+
+const ODATA_OPERATORS: Record<ComparisonOperator, string> = {
+  '=': 'eq',
+  '<>': 'ne',
+  '<': 'lt',
+  '>': 'gt',
+  '<=': 'le',
+  '>=': 'ge'
+};
+
+// Swapping the operands of a comparison flips its direction
+const REVERSED_OPERATORS: Record<ComparisonOperator, ComparisonOperator> = {
+  '=': '=',
+  '<>': '<>',
+  '<': '>',
+  '>': '<',
+  '<=': '>=',
+  '>=': '<='
+};
+
+const GUID_PATTERN = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+
+// 2024-01-31, optionally with a time and a zone
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+export class ODataFilterBuilder {
+  /**
+   * Build an OData $filter string from a WHERE clause expression. Column
+   * types, when given, let dates be compared with DateTime columns.
+   */
+  build(
+    expression: Expression,
+    formatColumn: ColumnFormatter = column => column.name,
+    columnType: ColumnTypeResolver = () => undefined
+  ): string {
+    return this.translate(expression, null, formatColumn, columnType);
+  }
+
+  /**
+   * Format a literal value for use in an OData expression
+   */
+  formatLiteral(value: LiteralValue, type?: AttributeType): string {
+    if (value === null) return 'null';
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    if (typeof value === 'number') return String(value);
+
+    // DateTime columns only compare with unquoted dates; a time without a zone is taken as UTC
+    if (type === 'DateTime' && ISO_DATE_PATTERN.test(value)) {
+      return value.includes('T') && !/(Z|[+-]\d{2}:\d{2})$/.test(value) ? `${value}Z` : value;
+    }
+
+    // Guid values are compared without quotes in OData v4
+    if (GUID_PATTERN.test(value)) {
+      return value.replace(/[{}]/g, '');
+    }
+
+    return this.formatString(value);
+  }
+
+  private translate(
+    expression: Expression,
+    parentOperator: 'AND' | 'OR' | null,
+    formatColumn: ColumnFormatter,
+    columnType: ColumnTypeResolver
+  ): string {
+    switch (expression.type) {
+      case 'Logical': {
+        const operator = expression.operator;
+        const left = this.translate(expression.left, operator, formatColumn, columnType);
+        const right = this.translate(expression.right, operator, formatColumn, columnType);
+        return this.group(`${left} ${operator.toLowerCase()} ${right}`, operator, parentOperator);
+      }
+      case 'Not':
+        return `not (${this.translate(expression.operand, null, formatColumn, columnType)})`;
+      case 'Comparison': {
+        let { left, right, operator } = expression;
+        // Keep the property on the left, as Dataverse expects
+        if (left.type === 'Literal' && right.type === 'Column') {
+          [left, right] = [right, left];
+          operator = REVERSED_OPERATORS[operator];
+        }
+        const type = left.type === 'Column' ? columnType(left) : undefined;
+        return `${this.formatOperand(left, formatColumn)} ${ODATA_OPERATORS[operator]} ${this.formatOperand(right, formatColumn, type)}`;
+      }
+      case 'Like': {
+        const text = this.translateLike(formatColumn(expression.operand), expression.pattern);
+        return expression.negated ? `not ${text}` : text;
+      }
+      case 'In':
+        return this.translateIn(
+          formatColumn(expression.operand),
+          columnType(expression.operand),
+          expression.values,
+          expression.negated,
+          parentOperator
+        );
+      case 'Between': {
+        const column = formatColumn(expression.operand);
+        const type = columnType(expression.operand);
+        const lower = this.formatLiteral(expression.lower.value, type);
+        const upper = this.formatLiteral(expression.upper.value, type);
+        return expression.negated
+          ? this.group(`${column} lt ${lower} or ${column} gt ${upper}`, 'OR', parentOperator)
+          : this.group(`${column} ge ${lower} and ${column} le ${upper}`, 'AND', parentOperator);
+      }
+      case 'IsNull':
+        return `${formatColumn(expression.operand)} ${expression.negated ? 'ne' : 'eq'} null`;
+      case 'Function':
+        return this.translateFunction(formatColumn(expression.operand), expression);
+    }
+  }
+
+  private translateFunction(column: string, expression: QueryFunctionExpression): string {
+    if (column.includes('/')) {
+      throw new Error(
+        `${expression.function}() cannot be applied to a joined column over OData. Run the query as FetchXML instead.`
+      );
+    }
+
+    const definition = QUERY_FUNCTIONS[expression.function];
+    const parameters = [`PropertyName='${column}'`];
+    if (expression.argument) {
+      // Function parameters are always quoted, GUIDs included
+      const value = expression.argument.value;
+      const text = typeof value === 'number' ? String(value) : this.formatString(String(value).replace(/^\{(.*)\}$/, '$1'));
+      parameters.push(`PropertyValue=${text}`);
+    }
+
+    if (expression.negated && !definition.negatedOData) {
+      return `not Microsoft.Dynamics.CRM.${definition.odata}(${parameters.join(',')})`;
+    }
+    const func = expression.negated ? definition.negatedOData : definition.odata;
+    return `Microsoft.Dynamics.CRM.${func}(${parameters.join(',')})`;
+  }
+
+  /**
+   * OData has no LIKE; only patterns with % at the start and/or end can be
+   * expressed, as startswith, endswith or contains. As in FetchXML, _ matches
+   * any one character, so only the escaped [_] can be sent over OData.
+   */
+  private translateLike(column: string, pattern: string): string {
+    const leading = pattern.startsWith('%');
+    const trailing = pattern.length > 1 && pattern.endsWith('%');
+    const value = pattern.replace(/^%+|%+$/g, '');
+
+    if (value.includes('%')) {
+      throw new Error(
+        `LIKE '${pattern}' has a wildcard in the middle, which OData cannot express. Run the query as FetchXML instead.`
+      );
+    }
+    if (value.replace(/\[_\]/g, '').includes('_')) {
+      throw new Error(
+        `LIKE '${pattern}' uses the _ wildcard, which OData cannot express. ` +
+        'Write [_] to match an underscore, or run the query as FetchXML instead.'
+      );
+    }
+
+    const literal = this.formatString(value.replace(/\[_\]/g, '_'));
+    if (leading && trailing) return `contains(${column},${literal})`;
+    if (leading) return `endswith(${column},${literal})`;
+    if (trailing) return `startswith(${column},${literal})`;
+    return `${column} eq ${literal}`;
+  }
+
+  private translateIn(
+    column: string,
+    type: AttributeType | undefined,
+    values: Literal[],
+    negated: boolean,
+    parentOperator: 'AND' | 'OR' | null
+  ): string {
+    // Query functions take a property name, so navigation paths fall back to an OR chain
+    if (column.includes('/')) {
+      const operator = negated ? 'ne' : 'eq';
+      const text = values
+        .map(value => `${column} ${operator} ${this.formatLiteral(value.value, type)}`)
+        .join(negated ? ' and ' : ' or ');
+      return this.group(text, negated ? 'AND' : 'OR', parentOperator);
+    }
+
+    // Query function values are strings, so NULL becomes a null check beside the list
+    const nullCheck = values.some(value => value.value === null) ? `${column} ${negated ? 'ne' : 'eq'} null` : null;
+    const listed = values.filter(value => value.value !== null);
+    if (nullCheck && listed.length === 0) {
+      return nullCheck;
+    }
+
+    const propertyValues = listed.map(value => this.formatString(String(value.value))).join(',');
+    const func = negated ? 'NotIn' : 'In';
+    const text = `Microsoft.Dynamics.CRM.${func}(PropertyName='${column}',PropertyValues=[${propertyValues}])`;
+    if (!nullCheck) {
+      return text;
+    }
+    return this.group(`${text} ${negated ? 'and' : 'or'} ${nullCheck}`, negated ? 'AND' : 'OR', parentOperator);
+  }
+
+  // OR binds looser than AND, so it needs parentheses inside an AND
+  private group(text: string, operator: 'AND' | 'OR', parentOperator: 'AND' | 'OR' | null): string {
+    return parentOperator === 'AND' && operator === 'OR' ? `(${text})` : text;
+  }
+
+  private formatString(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  private formatOperand(operand: Operand, formatColumn: ColumnFormatter, type?: AttributeType): string {
+    if (operand.type === 'Column') {
+      return formatColumn(operand);
+    }
+    if (operand.type === 'Aggregate') {
+      throw new Error('Aggregate functions cannot be used in a $filter');
+    }
+    return this.formatLiteral(operand.value, type);
+  }
+}
+
+export default new ODataFilterBuilder();
@@ -5,6 +5,8 @@
 import sqlParser from './sql-parser';
 import dynamicsApi from './dynamics-api';
 import resultsHandler from './results-handler';
+import { connectTransport } from './web-api-transport';
+import connectionManager, { Connection, showEnvironmentBanner } from './connection-manager';
 
 class PopupController {
   private sqlQueryTextarea!: HTMLTextAreaElement;
@@ -14,14 +16,20 @@ class PopupController {
   private viewAllFieldsButton!: HTMLButtonElement;
   private statusMessage!: HTMLElement;
   private settingsButton!: HTMLButtonElement;
+  private connectionSelect!: HTMLSelectElement;
+  private environmentBanner!: HTMLElement;
   
   private isOnRecordForm = false;
+  // Organization of the active tab, which records are opened from
+  private currentOrgUrl = '';
   private currentEntityName = '';
   private currentRecordId = '';
   
   constructor() {
     this.initElements();
     this.initEventListeners();
+    dynamicsApi.setNoticeListener(message => this.showStatus(message, 'normal'));
+    this.loadConnections();
     this.checkCurrentPage();
     
     // Test SQL parser
@@ -42,6 +50,8 @@ class PopupController {
     this.viewAllFieldsButton = document.getElementById('view-all-fields') as HTMLButtonElement;
     this.statusMessage = document.getElementById('status-message') as HTMLElement;
     this.settingsButton = document.getElementById('settings-btn') as HTMLButtonElement;
+    this.connectionSelect = document.getElementById('connection-select') as HTMLSelectElement;
+    this.environmentBanner = document.getElementById('environment-banner') as HTMLElement;
   }
   
   private initEventListeners(): void {
@@ -50,6 +60,7 @@ class PopupController {
     this.openQueryToolButton.addEventListener('click', () => this.openQueryTool());
     this.viewAllFieldsButton.addEventListener('click', () => this.openRecordInspector());
     this.settingsButton.addEventListener('click', () => this.openSettings());
+    this.connectionSelect.addEventListener('change', () => this.switchConnection());
     
     // Listen for messages from content script
     chrome.runtime.onMessage.addListener((message) => {
@@ -156,7 +167,8 @@ class PopupController {
     chrome.storage.local.set({
       currentRecord: {
         entityName: this.currentEntityName,
-        recordId: this.currentRecordId
+        recordId: this.currentRecordId,
+        orgUrl: this.currentOrgUrl
       }
     }, () => {
       // Open the record inspector page
@@ -165,8 +177,32 @@ class PopupController {
   }
   
   private openSettings(): void {
-    // To be implemented in future versions
-    this.showStatus('Settings will be available in a future version', 'normal');
+    chrome.tabs.create({ url: 'query-tool.html#connections' });
+  }
+  
+  private async loadConnections(): Promise<void> {
+    const connections = await connectionManager.getConnections();
+    const active = await connectionManager.getActive();
+    
+    this.connectionSelect.innerHTML = '';
+    connections.forEach(connection => {
+      const option = document.createElement('option');
+      option.value = connection.id;
+      option.textContent = `${connection.name} (${connection.environmentType})`;
+      this.connectionSelect.appendChild(option);
+    });
+    
+    this.connectionSelect.disabled = connections.length === 0;
+    if (active) {
+      this.connectionSelect.value = active.id;
+      document.documentElement.style.setProperty('--connection-color', active.color);
+    }
+    showEnvironmentBanner(this.environmentBanner, active);
+  }
+  
+  private async switchConnection(): Promise<void> {
+    await connectionManager.setActive(this.connectionSelect.value);
+    await this.loadConnections();
   }
   
   private showStatus(message: string, type: 'normal' | 'error' | 'success'): void {
@@ -174,23 +210,31 @@ class PopupController {
     this.statusMessage.className = type;
   }
   
-  private onDynamicsDetected(url: string): void {
-    // Extract just the base URL (domain) from the current URL
-    let orgUrl = url;
+  private async onDynamicsDetected(url: string): Promise<void> {
+    // Remember the organization; queries keep running against the selected one
+    let connection: Connection;
     try {
-      const urlObj = new URL(url);
-      orgUrl = `${urlObj.protocol}//${urlObj.hostname}`;
+      connection = await connectionManager.register(url);
     } catch (e) {
       console.error('Error parsing URL:', e);
+      return;
     }
+    this.currentOrgUrl = connection.orgUrl;
     
-    // Initialize the Dynamics API with the current URL
-    dynamicsApi.initialize(orgUrl);
+    // Initialize the Dynamics API with the current URL, relaying through its tab
+    connectTransport(connection.orgUrl)
+      .then(transport => dynamicsApi.initialize(connection.orgUrl, transport))
+      .catch(error => console.error('Error connecting to Dynamics CRM:', error));
     
-    // Store the organization URL for later use
-    chrome.storage.local.set({ orgUrl });
+    await this.loadConnections();
     
-    this.showStatus('Connected to Dynamics CRM', 'success');
+    const active = await connectionManager.getActive();
+    this.showStatus(
+      active && active.id !== connection.id
+        ? `This tab is ${connection.name}; queries run against ${active.name}`
+        : `Connected to ${connection.name}`,
+      'success'
+    );
   }
   
   private onRecordFormDetected(entityName: string, recordId: string): void {
@@ -2,16 +2,40 @@
  * Query Tool script for Dynamics CRM Toolkit
  */
 
-import sqlParser from './sql-parser';
-import dynamicsApi from './dynamics-api';
-import resultsHandler from './results-handler';
-import { FormattedResult } from './results-handler';
+import sqlParser, { ParsedQuery, SqlSyntaxError } from './sql-parser';
+import dynamicsApi, { ExplainStep, MutationPreview, MutationProgress, QueryResult } from './dynamics-api';
+import resultsHandler, { FormattedResult, ResultCell } from './results-handler';
+import fetchXmlParser from './fetchxml-parser';
+import sqlFormatter from './sql-formatter';
+import { QueryValidationError } from './query-validator';
+import { WebApiError } from './web-api-client';
+import { connectTransport } from './web-api-transport';
+import metadataService, { AttributeMetadata, isLookupAttribute } from './metadata-service';
+import { SqlEditor } from './sql-editor';
+import undoJournal, { JournalEntry } from './undo-journal';
+import resultsDiffer, { DiffStatus, ResultDiff } from './results-diff';
+import connectionManager, {
+  Connection,
+  ENVIRONMENT_COLORS,
+  ENVIRONMENT_TYPES,
+  EnvironmentType,
+  getOrgUrl,
+  showEnvironmentBanner
+} from './connection-manager';
+
+// UPDATE and DELETE matching more records than this must be confirmed by typing the count
+const DEFAULT_CONFIRM_THRESHOLD = 100;
+
+const DEFAULT_BATCH_CONCURRENCY = 2;
 
 class QueryToolController {
   private sqlQueryTextarea!: HTMLTextAreaElement;
+  private editor!: SqlEditor;
   private executeButton!: HTMLButtonElement;
   private clearButton!: HTMLButtonElement;
   private exportButton!: HTMLButtonElement;
+  private showFormattedCheckbox!: HTMLInputElement;
+  private exportValuesSelect!: HTMLSelectElement;
   private statusMessage!: HTMLElement;
   private executionTime!: HTMLElement;
   private recordCount!: HTMLElement;
@@ -21,9 +45,71 @@ class QueryToolController {
   private prevPageButton!: HTMLButtonElement;
   private nextPageButton!: HTMLButtonElement;
   private pageInfo!: HTMLElement;
+  private resultsSummary!: HTMLElement;
   private backButton!: HTMLButtonElement;
+  private useFetchXmlCheckbox!: HTMLInputElement;
+  private showFetchXmlButton!: HTMLButtonElement;
+  private copyFetchXmlButton!: HTMLButtonElement;
+  private fetchXmlSection!: HTMLElement;
+  private fetchXmlOutput!: HTMLElement;
+  private importFetchXmlButton!: HTMLButtonElement;
+  private importSection!: HTMLElement;
+  private fetchXmlInput!: HTMLTextAreaElement;
+  private convertFetchXmlButton!: HTMLButtonElement;
+  private cancelImportButton!: HTMLButtonElement;
+  private importWarnings!: HTMLElement;
+  private explainButton!: HTMLButtonElement;
+  private closeExplainButton!: HTMLButtonElement;
+  private explainSection!: HTMLElement;
+  private explainOutput!: HTMLElement;
+  private dryRunCheckbox!: HTMLInputElement;
+  private confirmThresholdInput!: HTMLInputElement;
+  private batchConcurrencyInput!: HTMLInputElement;
+  private progressBar!: HTMLProgressElement;
+  private errorDetails!: HTMLElement;
+  private confirmDialog!: HTMLDialogElement;
+  private confirmTitle!: HTMLElement;
+  private confirmSummary!: HTMLElement;
+  private confirmSample!: HTMLTableElement;
+  private confirmTyped!: HTMLElement;
+  private confirmTypedLabel!: HTMLElement;
+  private confirmInput!: HTMLInputElement;
+  private confirmOkButton!: HTMLButtonElement;
+  private confirmCancelButton!: HTMLButtonElement;
+  private historyButton!: HTMLButtonElement;
+  private historySection!: HTMLElement;
+  private historyBody!: HTMLElement;
+  private clearHistoryButton!: HTMLButtonElement;
+  private closeHistoryButton!: HTMLButtonElement;
+  private connectionSelect!: HTMLSelectElement;
+  private connectionsButton!: HTMLButtonElement;
+  private connectionsSection!: HTMLElement;
+  private connectionsBody!: HTMLElement;
+  private newConnectionUrlInput!: HTMLInputElement;
+  private addConnectionButton!: HTMLButtonElement;
+  private closeConnectionsButton!: HTMLButtonElement;
+  private resultsConnection!: HTMLElement;
+  private environmentBanner!: HTMLElement;
+  private compareButton!: HTMLButtonElement;
+  private compareSection!: HTMLElement;
+  private closeCompareButton!: HTMLButtonElement;
+  private compareConnectionSelect!: HTMLSelectElement;
+  private compareKeyInput!: HTMLInputElement;
+  private compareDifferencesOnlyCheckbox!: HTMLInputElement;
+  private runCompareButton!: HTMLButtonElement;
+  private compareSummary!: HTMLElement;
+  private compareTable!: HTMLTableElement;
+  
+  // Settles the open confirmation dialog
+  private resolveConfirmation: ((confirmed: boolean) => void) | null = null;
+  private confirmationText = '';
+  
+  // A connection used by this page only, such as the one a record inspector query came from
+  private pageConnectionId: string | null = null;
   
   private currentResult: FormattedResult | null = null;
+  // The last comparison, with the connections on its left and right
+  private currentDiff: { diff: ResultDiff; left: Connection; right: Connection } | null = null;
   private currentPage = 1;
   private pageSize = 50;
   private sortColumn = 0;
@@ -32,8 +118,16 @@ class QueryToolController {
   constructor() {
     this.initElements();
     this.initEventListeners();
+    dynamicsApi.setNoticeListener(message => this.showStatus(message, 'normal'));
     this.loadSavedQuery();
+    this.loadSettings();
+    this.loadConnections();
     this.checkPendingQuery();
+    
+    // The settings button in the popup opens the connection list
+    if (window.location.hash === '#connections') {
+      this.showConnections();
+    }
   }
   
   private initElements(): void {
@@ -41,6 +135,8 @@ class QueryToolController {
     this.executeButton = document.getElementById('execute-btn') as HTMLButtonElement;
     this.clearButton = document.getElementById('clear-btn') as HTMLButtonElement;
     this.exportButton = document.getElementById('export-btn') as HTMLButtonElement;
+    this.showFormattedCheckbox = document.getElementById('show-formatted') as HTMLInputElement;
+    this.exportValuesSelect = document.getElementById('export-values') as HTMLSelectElement;
     this.statusMessage = document.getElementById('status-message') as HTMLElement;
     this.executionTime = document.getElementById('execution-time') as HTMLElement;
     this.recordCount = document.getElementById('record-count') as HTMLElement;
@@ -50,14 +146,117 @@ class QueryToolController {
     this.prevPageButton = document.getElementById('prev-page') as HTMLButtonElement;
     this.nextPageButton = document.getElementById('next-page') as HTMLButtonElement;
     this.pageInfo = document.getElementById('page-info') as HTMLElement;
+    this.resultsSummary = document.getElementById('results-summary') as HTMLElement;
     this.backButton = document.getElementById('back-btn') as HTMLButtonElement;
+    this.useFetchXmlCheckbox = document.getElementById('use-fetchxml') as HTMLInputElement;
+    this.showFetchXmlButton = document.getElementById('show-fetchxml-btn') as HTMLButtonElement;
+    this.copyFetchXmlButton = document.getElementById('copy-fetchxml-btn') as HTMLButtonElement;
+    this.fetchXmlSection = document.getElementById('fetchxml-section') as HTMLElement;
+    this.fetchXmlOutput = document.getElementById('fetchxml-output') as HTMLElement;
+    this.importFetchXmlButton = document.getElementById('import-fetchxml-btn') as HTMLButtonElement;
+    this.importSection = document.getElementById('import-section') as HTMLElement;
+    this.fetchXmlInput = document.getElementById('fetchxml-input') as HTMLTextAreaElement;
+    this.convertFetchXmlButton = document.getElementById('convert-fetchxml-btn') as HTMLButtonElement;
+    this.cancelImportButton = document.getElementById('cancel-import-btn') as HTMLButtonElement;
+    this.importWarnings = document.getElementById('import-warnings') as HTMLElement;
+    this.explainButton = document.getElementById('explain-btn') as HTMLButtonElement;
+    this.closeExplainButton = document.getElementById('close-explain-btn') as HTMLButtonElement;
+    this.explainSection = document.getElementById('explain-section') as HTMLElement;
+    this.explainOutput = document.getElementById('explain-output') as HTMLElement;
+    this.dryRunCheckbox = document.getElementById('dry-run') as HTMLInputElement;
+    this.confirmThresholdInput = document.getElementById('confirm-threshold') as HTMLInputElement;
+    this.batchConcurrencyInput = document.getElementById('batch-concurrency') as HTMLInputElement;
+    this.progressBar = document.getElementById('progress-bar') as HTMLProgressElement;
+    this.errorDetails = document.getElementById('error-details') as HTMLElement;
+    this.confirmDialog = document.getElementById('confirm-dialog') as HTMLDialogElement;
+    this.confirmTitle = document.getElementById('confirm-title') as HTMLElement;
+    this.confirmSummary = document.getElementById('confirm-summary') as HTMLElement;
+    this.confirmSample = document.getElementById('confirm-sample') as HTMLTableElement;
+    this.confirmTyped = document.getElementById('confirm-typed') as HTMLElement;
+    this.confirmTypedLabel = document.getElementById('confirm-typed-label') as HTMLElement;
+    this.confirmInput = document.getElementById('confirm-input') as HTMLInputElement;
+    this.confirmOkButton = document.getElementById('confirm-ok-btn') as HTMLButtonElement;
+    this.confirmCancelButton = document.getElementById('confirm-cancel-btn') as HTMLButtonElement;
+    this.historyButton = document.getElementById('history-btn') as HTMLButtonElement;
+    this.historySection = document.getElementById('history-section') as HTMLElement;
+    this.historyBody = document.getElementById('history-body') as HTMLElement;
+    this.clearHistoryButton = document.getElementById('clear-history-btn') as HTMLButtonElement;
+    this.closeHistoryButton = document.getElementById('close-history-btn') as HTMLButtonElement;
+    this.connectionSelect = document.getElementById('connection-select') as HTMLSelectElement;
+    this.connectionsButton = document.getElementById('connections-btn') as HTMLButtonElement;
+    this.connectionsSection = document.getElementById('connections-section') as HTMLElement;
+    this.connectionsBody = document.getElementById('connections-body') as HTMLElement;
+    this.newConnectionUrlInput = document.getElementById('new-connection-url') as HTMLInputElement;
+    this.addConnectionButton = document.getElementById('add-connection-btn') as HTMLButtonElement;
+    this.closeConnectionsButton = document.getElementById('close-connections-btn') as HTMLButtonElement;
+    this.resultsConnection = document.getElementById('results-connection') as HTMLElement;
+    this.environmentBanner = document.getElementById('environment-banner') as HTMLElement;
+    this.compareButton = document.getElementById('compare-btn') as HTMLButtonElement;
+    this.compareSection = document.getElementById('compare-section') as HTMLElement;
+    this.closeCompareButton = document.getElementById('close-compare-btn') as HTMLButtonElement;
+    this.compareConnectionSelect = document.getElementById('compare-connection-select') as HTMLSelectElement;
+    this.compareKeyInput = document.getElementById('compare-key') as HTMLInputElement;
+    this.compareDifferencesOnlyCheckbox = document.getElementById('compare-differences-only') as HTMLInputElement;
+    this.runCompareButton = document.getElementById('run-compare-btn') as HTMLButtonElement;
+    this.compareSummary = document.getElementById('compare-summary') as HTMLElement;
+    this.compareTable = document.getElementById('compare-table') as HTMLTableElement;
+    
+    this.editor = new SqlEditor(this.sqlQueryTextarea, {
+      getTables: async () => (await metadataService.getEntities(await this.getOrgUrl()))
+        .map(entity => entity.logicalName),
+      getColumns: table => this.getColumnNames(table)
+    });
   }
   
   private initEventListeners(): void {
     this.executeButton.addEventListener('click', () => this.executeQuery());
     this.clearButton.addEventListener('click', () => this.clearQuery());
     this.exportButton.addEventListener('click', () => this.exportResults());
+    this.showFormattedCheckbox.addEventListener('change', () => {
+      this.saveSettings();
+      this.displayResultPage();
+      this.renderDiff();
+    });
+    this.exportValuesSelect.addEventListener('change', () => this.saveSettings());
     this.backButton.addEventListener('click', () => window.close());
+    this.showFetchXmlButton.addEventListener('click', () => this.showFetchXml());
+    this.copyFetchXmlButton.addEventListener('click', () => this.copyFetchXml());
+    this.importFetchXmlButton.addEventListener('click', () => this.importSection.classList.remove('hidden'));
+    this.convertFetchXmlButton.addEventListener('click', () => this.importFetchXml());
+    this.cancelImportButton.addEventListener('click', () => this.importSection.classList.add('hidden'));
+    this.explainButton.addEventListener('click', () => this.explainQuery());
+    this.closeExplainButton.addEventListener('click', () => this.explainSection.classList.add('hidden'));
+    this.confirmThresholdInput.addEventListener('change', () => this.saveSettings());
+    this.batchConcurrencyInput.addEventListener('change', () => this.saveSettings());
+    this.historyButton.addEventListener('click', () => this.showHistory());
+    this.clearHistoryButton.addEventListener('click', () => this.clearHistory());
+    this.closeHistoryButton.addEventListener('click', () => this.historySection.classList.add('hidden'));
+    this.connectionSelect.addEventListener('change', () => this.switchConnection());
+    this.connectionsButton.addEventListener('click', () => this.showConnections());
+    this.addConnectionButton.addEventListener('click', () => this.addConnection());
+    this.closeConnectionsButton.addEventListener('click', () => this.connectionsSection.classList.add('hidden'));
+    this.compareButton.addEventListener('click', () => this.compareSection.classList.remove('hidden'));
+    this.closeCompareButton.addEventListener('click', () => this.compareSection.classList.add('hidden'));
+    this.runCompareButton.addEventListener('click', () => this.compareEnvironments());
+    this.compareDifferencesOnlyCheckbox.addEventListener('change', () => this.renderDiff());
+    
+    // Connections are also added and switched from the popup
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && (changes.connections || changes.activeConnectionId)) {
+        this.loadConnections();
+      }
+    });
+    
+    this.confirmOkButton.addEventListener('click', () => this.closeConfirmation(true));
+    this.confirmCancelButton.addEventListener('click', () => this.closeConfirmation(false));
+    this.confirmInput.addEventListener('input', () => {
+      this.confirmOkButton.disabled = this.confirmInput.value.trim() !== this.confirmationText;
+    });
+    // Escape closes the dialog without confirming
+    this.confirmDialog.addEventListener('cancel', (e) => {
+      e.preventDefault();
+      this.closeConfirmation(false);
+    });
     
     this.prevPageButton.addEventListener('click', () => this.goToPreviousPage());
     this.nextPageButton.addEventListener('click', () => this.goToNextPage());
@@ -69,17 +268,26 @@ class QueryToolController {
   }
   
   private checkPendingQuery(): void {
-    chrome.storage.local.get(['pendingQuery'], (result) => {
+    chrome.storage.local.get(['pendingQuery'], async (result) => {
       if (result.pendingQuery) {
-        const { query, results, executing } = result.pendingQuery;
+        const { query, results, executing, orgUrl } = result.pendingQuery;
         
-        // Set the query in the textarea
-        this.sqlQueryTextarea.value = query;
+        // Set the query in the editor
+        this.editor.setValue(query);
+        // Passed queries are written for OData, e.g. with lookups as _name_value
+        this.useFetchXmlCheckbox.checked = false;
         
         if (results) {
           // Process the results
-          this.processQueryResults(results);
+          this.processQueryResults(results, orgUrl || '');
         } else if (executing) {
+          // Run against the organization the query was opened from, such as the record inspector's
+          const connection = orgUrl && await connectionManager.findByOrgUrl(orgUrl);
+          if (connection) {
+            this.pageConnectionId = connection.id;
+            await this.loadConnections();
+          }
+          
           // Execute the query
           this.executeQuery();
         }
@@ -99,202 +307,777 @@ class QueryToolController {
     }
     
     this.showStatus('Executing query...', 'normal');
+    this.errorDetails.classList.add('hidden');
     this.executeButton.disabled = true;
     
     try {
       // Parse the SQL query
       const parsedQuery = sqlParser.parse(query);
       
-      // Get the organization URL
-      const orgStorage = await chrome.storage.local.get(['orgUrl']);
-      let orgUrl = orgStorage.orgUrl || '';
+      const connection = await this.initializeApi();
       
-      if (!orgUrl) {
-        throw new Error('Organization URL not found. Please navigate to Dynamics CRM first.');
+      const useFetchXml = this.useFetchXmlCheckbox.checked && parsedQuery.operation === 'SELECT';
+      if (useFetchXml) {
+        this.displayFetchXml(await dynamicsApi.buildFetchXml(parsedQuery));
       }
       
-      // Extract just the base URL (domain) from the stored URL
-      try {
-        const urlObj = new URL(orgUrl);
-        orgUrl = `${urlObj.protocol}//${urlObj.hostname}`;
-      } catch (e) {
-        console.error('Error parsing URL:', e);
-      }
-      
-      // Build the URL for the query
-      const url = this.buildQueryUrl(orgUrl, parsedQuery);
-      console.log('API URL:', url);
-      
-      // Determine HTTP method based on operation
-      let method = 'GET';
-      let body = null;
-      
-      switch (parsedQuery.operation) {
-        case 'SELECT':
-          method = 'GET';
-          break;
-        case 'INSERT':
-          method = 'POST';
-          body = JSON.stringify(parsedQuery.values);
-          break;
-        case 'UPDATE':
-          method = 'PATCH';
-          body = JSON.stringify(parsedQuery.values);
-          break;
-        case 'DELETE':
-          method = 'DELETE';
-          break;
-      }
+      const dryRun = this.dryRunCheckbox.checked;
+      const streamedRows: any[] = [];
+      this.resultsSummary.textContent = '';
       
-      // Execute the query directly
-      const startTime = performance.now();
-      const response = await fetch(url, {
-        method,
-        headers: {
-          'Accept': 'application/json',
-          'OData-MaxVersion': '4.0',
-          'OData-Version': '4.0',
-          ...(body ? { 'Content-Type': 'application/json' } : {})
+      const result = await dynamicsApi.executeQuery(parsedQuery, {
+        useFetchXml,
+        // Show large results while the remaining pages load
+        onRows: rows => {
+          streamedRows.push(...rows);
+          this.processQueryResults(streamedRows, connection.orgUrl);
+          this.showStatus(`Loading records... ${streamedRows.length} so far`, 'normal');
         },
-        body,
-        credentials: 'include' // Include credentials
+        dryRun,
+        confirmMutation: preview => this.confirmMutation(preview),
+        confirmProductionChange: summary => this.confirmProductionChange(connection, summary),
+        concurrency: this.getBatchConcurrency(),
+        onProgress: progress => this.showProgress(
+          parsedQuery.operation === 'UPDATE' ? 'Updating' : 'Deleting',
+          progress
+        )
       });
       
-      if (!response.ok) {
-        throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
+      if (result.cancelled) {
+        this.showStatus(`${parsedQuery.operation} cancelled, nothing was changed`, 'normal');
+        return;
       }
       
-      // Handle different response types based on operation
-      let data;
-      if (method === 'GET') {
-        data = await response.json();
-        this.processQueryResults(data.value || []);
-        this.recordCount.textContent = `Records: ${data.value?.length || 0}`;
+      // UPDATE and DELETE return the outcome of each record
+      const failed = result.preview && !dryRun
+        ? result.data.filter(outcome => outcome.status !== 'Succeeded').length
+        : 0;
+      
+      this.processQueryResults(result.data, result.orgUrl);
+      if (parsedQuery.operation === 'SELECT') {
+        this.recordCount.textContent = `Records: ${result.data.length}`;
+        this.resultsSummary.textContent = this.describeResultCount(result);
+      } else if (result.preview && dryRun) {
+        this.recordCount.textContent = `Records matched: ${result.preview.matchedCount}`;
+      } else if (result.preview) {
+        this.recordCount.textContent = `Succeeded: ${result.data.length - failed}, failed: ${failed}`;
       } else {
-        // For non-GET operations, show success message
         this.recordCount.textContent = 'Operation completed successfully';
-        
-        // For DELETE and UPDATE, show affected records
-        if (method === 'DELETE' || method === 'PATCH') {
-          this.processQueryResults([{ result: 'Operation completed successfully' }]);
-        } else if (method === 'POST') {
-          // For INSERT, try to get the created entity ID
-          const entityId = response.headers.get('OData-EntityId');
-          this.processQueryResults([{ 
-            result: 'Record created successfully', 
-            entityId: entityId || 'ID not available'
-          }]);
-        }
       }
       
-      const endTime = performance.now();
-      
       // Update execution info
-      this.executionTime.textContent = `Execution time: ${(endTime - startTime).toFixed(2)}ms`;
+      this.executionTime.textContent = `Execution time: ${result.executionTime.toFixed(2)}ms`;
       
-      this.showStatus('Query executed successfully', 'success');
-    } catch (error) {
-      console.error('Error executing query:', error);
-      if (error instanceof Error) {
-        this.showStatus(`Error: ${error.message}`, 'error');
+      if (dryRun && result.preview) {
+        this.showStatus(`Dry run: ${result.preview.matchedCount} record(s) would be affected, nothing was changed`, 'success');
+      } else if (failed > 0) {
+        this.showStatus(`${parsedQuery.operation} finished with ${failed} failed record(s), see the results for details`, 'error');
       } else {
-        this.showStatus('An unknown error occurred', 'error');
+        this.showStatus('Query executed successfully', 'success');
+      }
+      
+      if (result.preview && !this.historySection.classList.contains('hidden')) {
+        await this.showHistory();
       }
+    } catch (error) {
+      console.error('Error executing query:', error);
+      this.showQueryError(error);
     } finally {
       this.executeButton.disabled = false;
+      this.progressBar.classList.add('hidden');
     }
   }
   
-  private buildQueryUrl(orgUrl: string, parsedQuery: any): string {
-    const { entity, fields, filter, orderBy, limit, values } = parsedQuery;
+  /**
+   * Show the records an UPDATE or DELETE matched and wait for the user to
+   * confirm. Large changes must be confirmed by typing the record count.
+   */
+  private confirmMutation(preview: MutationPreview): Promise<boolean> {
+    const action = preview.operation === 'UPDATE' ? 'Update' : 'Delete';
+    const threshold = this.getConfirmThreshold();
+    const typed = preview.matchedCount > threshold;
+    
+    this.confirmTitle.textContent = `${action} ${preview.matchedCount} ${preview.entity} record(s)?`;
+    this.confirmSummary.textContent = preview.sample.length < preview.matchedCount
+      ? `The first ${preview.sample.length} of ${preview.matchedCount} matching records:`
+      : 'Matching records:';
+    this.renderTable(this.confirmSample, preview.sample);
+    this.confirmTypedLabel.textContent = `This changes more than ${threshold} records. Type ${preview.matchedCount} to confirm.`;
+    this.confirmDialog.classList.remove('production-confirm');
+    
+    return this.openConfirmation(action, typed ? String(preview.matchedCount) : undefined);
+  }
+  
+  /**
+   * The second confirmation for changes to a production environment,
+   * given by typing the connection's name
+   */
+  private confirmProductionChange(connection: Connection, summary: string): Promise<boolean> {
+    this.confirmTitle.textContent = `Change production environment ${connection.name}?`;
+    this.confirmSummary.textContent = `${summary} will run against ${connection.orgUrl}, which is marked as production.`;
+    this.confirmSample.innerHTML = '';
+    this.confirmTypedLabel.textContent = `Type ${connection.name} to confirm.`;
+    this.confirmDialog.classList.add('production-confirm');
+    
+    return this.openConfirmation('Run in production', connection.name);
+  }
+  
+  // Show the prepared dialog; with typedText, the user must type it to confirm
+  private openConfirmation(okLabel: string, typedText?: string): Promise<boolean> {
+    const typed = typedText !== undefined;
+    
+    this.confirmationText = typedText || '';
+    this.confirmTyped.classList.toggle('hidden', !typed);
+    this.confirmInput.value = '';
+    this.confirmOkButton.textContent = okLabel;
+    this.confirmOkButton.disabled = typed;
     
-    // Build the OData URL - use entity name as provided by user
-    let url = `${orgUrl}/api/data/v9.2/${entity}`;
+    this.confirmDialog.showModal();
+    (typed ? this.confirmInput : this.confirmCancelButton).focus();
     
-    // For UPDATE operations, we need to handle them differently
-    if (parsedQuery.operation === 'UPDATE' && filter) {
-      // For UPDATE, we need to first retrieve the record ID using the filter
-      // This is a simplification - in a real app, you'd need to handle this more robustly
-      // For now, we'll assume the filter is in the format "fieldname eq 'value'"
-      // and we'll extract the ID from there if possible
+    return new Promise(resolve => {
+      this.resolveConfirmation = resolve;
+    });
+  }
+  
+  private closeConfirmation(confirmed: boolean): void {
+    this.confirmDialog.close();
+    this.resolveConfirmation?.(confirmed);
+    this.resolveConfirmation = null;
+  }
+  
+  /**
+   * List the journaled UPDATE and DELETE statements, newest first
+   */
+  private async showHistory(): Promise<void> {
+    const entries = await undoJournal.getEntries();
+    const connections = await connectionManager.getConnections();
+    
+    this.historyBody.innerHTML = '';
+    
+    entries.forEach(entry => {
+      const tr = document.createElement('tr');
+      
+      [
+        new Date(entry.executedOn).toLocaleString(),
+        this.createConnectionTag(entry.orgUrl, connections),
+        this.describeChange(entry),
+        String(entry.records.length)
+      ].forEach(content => {
+        const td = document.createElement('td');
+        td.append(content);
+        tr.appendChild(td);
+      });
       
-      // Check if the filter is directly specifying an ID
-      const idMatch = filter.match(/(\w+id)\s+eq\s+'([^']+)'/i);
-      if (idMatch) {
-        const [_, idField, idValue] = idMatch;
-        // Format the ID properly - remove curly braces if present
-        const formattedId = idValue.replace(/[{}]/g, '');
-        // For UPDATE, we need to specify the ID in the URL
-        return `${url}(${formattedId})`;
+      const actionCell = document.createElement('td');
+      if (entry.revertedOn) {
+        actionCell.textContent = `Reverted ${new Date(entry.revertedOn).toLocaleString()}`;
+      } else {
+        const revertButton = document.createElement('button');
+        revertButton.className = 'secondary-btn';
+        revertButton.textContent = 'Revert';
+        revertButton.addEventListener('click', () => this.revertChange(entry, revertButton));
+        actionCell.appendChild(revertButton);
       }
+      tr.appendChild(actionCell);
       
-      // If we can't extract an ID, we'll use the filter as is
-      // This might not work for all cases but is a reasonable fallback
-      url += `?$filter=${filter}`;
-      return url;
+      this.historyBody.appendChild(tr);
+    });
+    
+    this.historySection.classList.remove('hidden');
+    if (entries.length === 0) {
+      this.showStatus('No UPDATE or DELETE statements have been run yet', 'normal');
+    }
+  }
+  
+  private describeChange(entry: JournalEntry): string {
+    return entry.operation === 'UPDATE'
+      ? `UPDATE ${entry.entity} SET ${Object.keys(entry.values || {}).join(', ')}`
+      : `DELETE FROM ${entry.entity}`;
+  }
+  
+  private async revertChange(entry: JournalEntry, button: HTMLButtonElement): Promise<void> {
+    const effect = entry.operation === 'UPDATE'
+      ? 'get their previous values back'
+      : 'be created again';
+    if (!confirm(`Revert "${this.describeChange(entry)}"? ${entry.records.length} record(s) will ${effect}.`)) {
+      return;
     }
     
-    // For DELETE operations that need a specific record
-    if (parsedQuery.operation === 'DELETE' && filter) {
-      // Similar logic as UPDATE
-      const idMatch = filter.match(/(\w+id)\s+eq\s+'([^']+)'/i);
-      if (idMatch) {
-        const [_, idField, idValue] = idMatch;
-        const formattedId = idValue.replace(/[{}]/g, '');
-        return `${url}(${formattedId})`;
-      }
-      
-      url += `?$filter=${filter}`;
-      return url;
+    button.disabled = true;
+    this.showStatus('Reverting change...', 'normal');
+    
+    try {
+      const connection = await this.initializeApi();
+      const count = await dynamicsApi.revertMutation(entry.id, {
+        confirmProductionChange: summary => this.confirmProductionChange(connection, summary),
+        concurrency: this.getBatchConcurrency(),
+        onProgress: progress => this.showProgress('Reverting', progress)
+      });
+      this.showStatus(`Reverted ${count} record(s)`, 'success');
+      await this.showHistory();
+    } catch (error) {
+      console.error('Error reverting change:', error);
+      // Records that were reverted have left the journal entry
+      await this.showHistory();
+      this.showStatus(`Error: ${error instanceof Error ? error.message : 'could not revert the change'}`, 'error');
+    } finally {
+      this.progressBar.classList.add('hidden');
+    }
+  }
+  
+  private async clearHistory(): Promise<void> {
+    if (!confirm('Clear the change history? Changes in it can no longer be reverted.')) {
+      return;
     }
     
-    // Add query parameters for SELECT operations
-    if (parsedQuery.operation === 'SELECT') {
-      const params = new URLSearchParams();
-      
-      // Select fields
-      if (fields && fields.length > 0) {
-        params.append('$select', fields.join(','));
+    await undoJournal.clear();
+    await this.showHistory();
+    this.showStatus('Change history cleared', 'success');
+  }
+  
+  /**
+   * Run the query against the selected environment and the one chosen to
+   * compare with, and list the rows that were added, removed or changed
+   */
+  private async compareEnvironments(): Promise<void> {
+    const query = this.sqlQueryTextarea.value.trim();
+    
+    if (!query) {
+      this.showStatus('Please enter a SQL query', 'error');
+      return;
+    }
+    
+    this.errorDetails.classList.add('hidden');
+    this.runCompareButton.disabled = true;
+    
+    try {
+      const parsedQuery = sqlParser.parse(query);
+      if (parsedQuery.operation !== 'SELECT') {
+        throw new Error('Only SELECT statements can be compared');
       }
       
-      // Filter
-      if (filter) {
-        params.append('$filter', filter);
+      const left = await this.getConnection();
+      const right = await connectionManager.getConnection(this.compareConnectionSelect.value);
+      if (!right) {
+        throw new Error('Add another connection to compare with');
       }
       
-      // Order by
-      if (orderBy && orderBy.length > 0) {
-        const orderByStr = orderBy
-          .map((item: { field: string; direction: string }) => `${item.field} ${item.direction}`)
-          .join(',');
-        params.append('$orderby', orderByStr);
+      let leftResult: FormattedResult;
+      let rightResult: FormattedResult;
+      try {
+        leftResult = await this.runOnConnection(left, query);
+        rightResult = await this.runOnConnection(right, query);
+      } finally {
+        // Later requests, such as refreshing or reverting, go to the selected environment again
+        dynamicsApi.initialize(left.orgUrl, await connectTransport(left.orgUrl));
       }
       
-      // Top (limit)
-      if (limit) {
-        params.append('$top', limit.toString());
+      const keyColumn = this.compareKeyInput.value.trim() ||
+        (await metadataService.getEntity(left.orgUrl, parsedQuery.entity)).primaryIdAttribute;
+      
+      this.currentDiff = { diff: resultsDiffer.diff(leftResult, rightResult, keyColumn), left, right };
+      this.renderDiff();
+      this.showStatus(`Compared ${leftResult.totalCount} and ${rightResult.totalCount} record(s) on ${keyColumn}`, 'success');
+    } catch (error) {
+      console.error('Error comparing environments:', error);
+      this.showQueryError(error);
+    } finally {
+      this.runCompareButton.disabled = false;
+    }
+  }
+  
+  private async runOnConnection(connection: Connection, query: string): Promise<FormattedResult> {
+    this.showStatus(`Running query against ${connection.name}...`, 'normal');
+    dynamicsApi.initialize(connection.orgUrl, await connectTransport(connection.orgUrl));
+    
+    const result = await dynamicsApi.executeQuery(sqlParser.parse(query), {
+      useFetchXml: this.useFetchXmlCheckbox.checked
+    });
+    return resultsHandler.formatResults(result);
+  }
+  
+  // Changed cells show both values, left first
+  private renderDiff(): void {
+    if (!this.currentDiff) return;
+    
+    const { diff, left, right } = this.currentDiff;
+    const showFormatted = this.showFormattedCheckbox.checked;
+    const statusLabels: Record<DiffStatus, string> = {
+      added: `Only in ${right.name}`,
+      removed: `Only in ${left.name}`,
+      changed: 'Changed',
+      unchanged: 'Same'
+    };
+    
+    this.compareSummary.textContent = `${left.name} compared with ${right.name}: ` +
+      `${diff.counts.changed} changed, ${diff.counts.removed} only in ${left.name}, ` +
+      `${diff.counts.added} only in ${right.name}, ${diff.counts.unchanged} the same`;
+    
+    this.compareTable.innerHTML = '';
+    
+    const headerRow = this.compareTable.createTHead().insertRow();
+    ['', ...diff.columns].forEach(column => {
+      const th = document.createElement('th');
+      th.textContent = column;
+      headerRow.appendChild(th);
+    });
+    
+    const body = this.compareTable.createTBody();
+    diff.rows
+      .filter(row => row.status !== 'unchanged' || !this.compareDifferencesOnlyCheckbox.checked)
+      .forEach(row => {
+        const tr = body.insertRow();
+        tr.className = `diff-${row.status}`;
+        tr.insertCell().textContent = statusLabels[row.status];
+        
+        diff.columns.forEach((column, index) => {
+          const leftValue = row.left && resultsHandler.getCellValue(row.left[index], showFormatted);
+          const rightValue = row.right && resultsHandler.getCellValue(row.right[index], showFormatted);
+          
+          if (row.changedColumns.includes(column)) {
+            const td = tr.insertCell();
+            td.textContent = `${this.getCellText(leftValue)} → ${this.getCellText(rightValue)}`;
+            td.title = `${left.name}: ${this.getCellText(leftValue)}\n${right.name}: ${this.getCellText(rightValue)}`;
+            td.className = 'diff-changed-cell';
+          } else {
+            tr.appendChild(this.createCell(row.left ? leftValue : rightValue));
+          }
+        });
+      });
+  }
+  
+  /**
+   * Fill the environment selector and mark the page with its connection's colour
+   */
+  private async loadConnections(): Promise<void> {
+    const connections = await connectionManager.getConnections();
+    const active = await this.findConnection();
+    
+    this.connectionSelect.innerHTML = '';
+    connections.forEach(connection => {
+      const option = document.createElement('option');
+      option.value = connection.id;
+      option.textContent = `${connection.name} (${connection.environmentType})`;
+      this.connectionSelect.appendChild(option);
+    });
+    
+    if (active) {
+      this.connectionSelect.value = active.id;
+      document.documentElement.style.setProperty('--connection-color', active.color);
+      this.connectionSelect.title = active.orgUrl;
+    }
+    showEnvironmentBanner(this.environmentBanner, active);
+    
+    // Any environment but the selected one can be compared with it
+    const compareWith = this.compareConnectionSelect.value;
+    this.compareConnectionSelect.innerHTML = '';
+    connections
+      .filter(connection => connection.id !== active?.id)
+      .forEach(connection => this.compareConnectionSelect.add(new Option(connection.name, connection.id)));
+    if (connections.some(connection => connection.id === compareWith && connection.id !== active?.id)) {
+      this.compareConnectionSelect.value = compareWith;
+    }
+    
+    if (!this.connectionsSection.classList.contains('hidden')) {
+      this.renderConnections(connections);
+    }
+  }
+  
+  private async switchConnection(): Promise<void> {
+    this.pageConnectionId = null;
+    await connectionManager.setActive(this.connectionSelect.value);
+    const connection = await this.getConnection();
+    this.showStatus(`Queries now run against ${connection.name}`, 'normal');
+  }
+  
+  private async showConnections(): Promise<void> {
+    this.renderConnections(await connectionManager.getConnections());
+    this.connectionsSection.classList.remove('hidden');
+  }
+  
+  // Edits are saved as soon as a field changes
+  private renderConnections(connections: Connection[]): void {
+    this.connectionsBody.innerHTML = '';
+    
+    connections.forEach(connection => {
+      const tr = document.createElement('tr');
+      
+      const nameInput = document.createElement('input');
+      nameInput.type = 'text';
+      nameInput.value = connection.name;
+      nameInput.addEventListener('change', () => {
+        const name = nameInput.value.trim();
+        if (name) {
+          connectionManager.save({ ...connection, name });
+        }
+      });
+      
+      const typeSelect = document.createElement('select');
+      ENVIRONMENT_TYPES.forEach(type => typeSelect.add(new Option(type, type)));
+      typeSelect.value = connection.environmentType;
+      typeSelect.addEventListener('change', () => {
+        const environmentType = typeSelect.value as EnvironmentType;
+        // Keep a colour the user picked, but follow the type's default otherwise
+        const color = connection.color === ENVIRONMENT_COLORS[connection.environmentType]
+          ? ENVIRONMENT_COLORS[environmentType]
+          : connection.color;
+        connectionManager.save({ ...connection, environmentType, color });
+      });
+      
+      const colorInput = document.createElement('input');
+      colorInput.type = 'color';
+      colorInput.value = connection.color;
+      colorInput.addEventListener('change', () => connectionManager.save({ ...connection, color: colorInput.value }));
+      
+      const readOnlyCheckbox = document.createElement('input');
+      readOnlyCheckbox.type = 'checkbox';
+      readOnlyCheckbox.checked = !!connection.readOnly;
+      readOnlyCheckbox.title = 'Only allow SELECT statements';
+      readOnlyCheckbox.addEventListener('change', () => connectionManager.save({ ...connection, readOnly: readOnlyCheckbox.checked }));
+      
+      const removeButton = document.createElement('button');
+      removeButton.className = 'secondary-btn';
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => this.removeConnection(connection));
+      
+      [nameInput, connection.orgUrl, typeSelect, colorInput, readOnlyCheckbox, removeButton].forEach(content => {
+        const td = document.createElement('td');
+        td.append(content);
+        tr.appendChild(td);
+      });
+      
+      this.connectionsBody.appendChild(tr);
+    });
+  }
+  
+  private async addConnection(): Promise<void> {
+    let orgUrl: string;
+    try {
+      orgUrl = getOrgUrl(this.newConnectionUrlInput.value.trim());
+    } catch (e) {
+      this.showStatus('Enter the URL of a Dynamics CRM organization', 'error');
+      return;
+    }
+    
+    const connection = await connectionManager.register(orgUrl);
+    this.newConnectionUrlInput.value = '';
+    this.showStatus(`Added ${connection.name}; set its environment type in the list`, 'success');
+  }
+  
+  private async removeConnection(connection: Connection): Promise<void> {
+    if (!confirm(`Remove the connection to ${connection.name}? It is added again when you open the organization.`)) {
+      return;
+    }
+    
+    await connectionManager.remove(connection.id);
+    this.showStatus(`Removed ${connection.name}`, 'success');
+  }
+  
+  private createConnectionTag(orgUrl: string, connections: Connection[]): HTMLElement {
+    const tag = document.createElement('span');
+    tag.className = 'connection-tag';
+    this.styleConnectionTag(tag, orgUrl, connections.find(connection => connection.orgUrl === orgUrl));
+    return tag;
+  }
+  
+  // The connection's name in its colour, or the bare URL for organizations without one
+  private styleConnectionTag(tag: HTMLElement, orgUrl: string, connection?: Connection): void {
+    tag.textContent = connection ? connection.name : orgUrl;
+    tag.title = orgUrl;
+    tag.style.backgroundColor = connection ? connection.color : '#666';
+  }
+  
+  private getConfirmThreshold(): number {
+    const threshold = parseInt(this.confirmThresholdInput.value, 10);
+    return isNaN(threshold) || threshold < 0 ? DEFAULT_CONFIRM_THRESHOLD : threshold;
+  }
+  
+  private getBatchConcurrency(): number {
+    const concurrency = parseInt(this.batchConcurrencyInput.value, 10);
+    return isNaN(concurrency) || concurrency < 1 ? DEFAULT_BATCH_CONCURRENCY : concurrency;
+  }
+  
+  private showProgress(action: string, progress: MutationProgress): void {
+    this.progressBar.max = progress.total;
+    this.progressBar.value = progress.completed;
+    this.progressBar.classList.remove('hidden');
+    
+    const failed = progress.failed > 0 ? `, ${progress.failed} failed` : '';
+    this.showStatus(`${action}: ${progress.completed} of ${progress.total} record(s)${failed}`, 'normal');
+  }
+  
+  private loadSettings(): void {
+    chrome.storage.local.get(['confirmThreshold', 'batchConcurrency', 'showFormatted', 'exportFormatted'], (result) => {
+      if (typeof result.confirmThreshold === 'number') {
+        this.confirmThresholdInput.value = String(result.confirmThreshold);
+      }
+      if (typeof result.batchConcurrency === 'number') {
+        this.batchConcurrencyInput.value = String(result.batchConcurrency);
+      }
+      if (typeof result.showFormatted === 'boolean') {
+        this.showFormattedCheckbox.checked = result.showFormatted;
+      }
+      if (typeof result.exportFormatted === 'boolean') {
+        this.exportValuesSelect.value = result.exportFormatted ? 'formatted' : 'raw';
       }
+    });
+  }
+  
+  private saveSettings(): void {
+    chrome.storage.local.set({
+      confirmThreshold: this.getConfirmThreshold(),
+      batchConcurrency: this.getBatchConcurrency(),
+      showFormatted: this.showFormattedCheckbox.checked,
+      exportFormatted: this.exportValuesSelect.value === 'formatted'
+    });
+  }
+  
+  /**
+   * Show the Web API requests a query would send, without sending them
+   */
+  private async explainQuery(): Promise<void> {
+    const query = this.sqlQueryTextarea.value.trim();
+    
+    if (!query) {
+      this.showStatus('Please enter a SQL query', 'error');
+      return;
+    }
+    
+    try {
+      const parsedQuery = sqlParser.parse(query);
+      await this.initializeApi();
       
-      // Append parameters to URL
-      const queryString = params.toString();
-      if (queryString) {
-        url += `?${queryString}`;
+      const useFetchXml = this.useFetchXmlCheckbox.checked && parsedQuery.operation === 'SELECT';
+      const steps = await dynamicsApi.explainQuery(parsedQuery, { useFetchXml });
+      
+      this.explainOutput.textContent = steps.map((step, index) => this.formatExplainStep(step, index + 1)).join('\n\n');
+      this.explainSection.classList.remove('hidden');
+      this.showStatus('Query explained, nothing was sent', 'success');
+    } catch (error) {
+      this.showQueryError(error);
+    }
+  }
+  
+  private formatExplainStep(step: ExplainStep, number: number): string {
+    const { method, url, headers, body } = step.request;
+    const [path, queryString] = url.split('?');
+    const lines = [`${number}. ${step.description}`, `${method} ${path}`];
+    
+    // One decoded parameter per line, so long filters stay readable
+    new URLSearchParams(queryString || '').forEach((value, name) => {
+      if (name === 'fetchXml') {
+        lines.push(`  ${name}=`, ...value.split('\n').map(line => `    ${line}`));
+      } else {
+        lines.push(`  ${name}=${value}`);
+      }
+    });
+    
+    Object.entries(headers).forEach(([name, value]) => lines.push(`${name}: ${value}`));
+    
+    if (body) {
+      lines.push('', JSON.stringify(body, null, 2));
+    }
+    
+    return lines.join('\n');
+  }
+  
+  private showQueryError(error: unknown): void {
+    if (error instanceof WebApiError) {
+      this.showStatus(`Dynamics API error${error.code ? ` ${error.code}` : ''}: ${error.message}`, 'error');
+      this.showErrorDetails(error);
+    } else if (error instanceof SqlSyntaxError) {
+      this.showStatus(`Syntax error: ${error.message}`, 'error');
+      this.highlightSyntaxError(error);
+    } else if (error instanceof QueryValidationError) {
+      this.showStatus(`Validation error: ${error.message}`, 'error');
+      this.highlightValidationError(error);
+      this.editor.setMarkers(error.issues
+        .filter(issue => issue.position)
+        .map(issue => ({ offset: issue.position!.offset, length: issue.length || 1, message: issue.message })));
+    } else if (error instanceof Error) {
+      this.showStatus(`Error: ${error.message}`, 'error');
+    } else {
+      this.showStatus('An unknown error occurred', 'error');
+    }
+  }
+  
+  // "Showing N of M records", where Dataverse counts up to 5000 matches
+  private describeResultCount(result: QueryResult): string {
+    const shown = result.data.length;
+    
+    if (result.totalCount === undefined || result.totalCount <= shown) {
+      return `Showing ${shown} record(s)`;
+    }
+    
+    return `Showing ${shown} of ${result.totalCount}${result.totalCountExceeded ? '+' : ''} records`;
+  }
+  
+  // Point the API at the selected environment
+  private async initializeApi(): Promise<Connection> {
+    const connection = await this.getConnection();
+    dynamicsApi.initialize(connection.orgUrl, await connectTransport(connection.orgUrl));
+    return connection;
+  }
+  
+  /**
+   * The connection this page runs against: its own one if it has it, otherwise the active one
+   */
+  private async findConnection(): Promise<Connection | undefined> {
+    const connections = await connectionManager.getConnections();
+    return connections.find(connection => connection.id === this.pageConnectionId) || connectionManager.getActive();
+  }
+  
+  private async getConnection(): Promise<Connection> {
+    const connection = await this.findConnection();
+    
+    if (!connection) {
+      throw new Error('No environment to connect to. Please navigate to Dynamics CRM first, or add a connection.');
+    }
+    
+    return connection;
+  }
+  
+  private async getOrgUrl(): Promise<string> {
+    return (await this.getConnection()).orgUrl;
+  }
+  
+  // Lookups are offered in both forms, since OData and FetchXML name them differently
+  private async getColumnNames(table: string): Promise<string[]> {
+    const orgUrl = await this.getOrgUrl();
+    const entity = await metadataService.getEntity(orgUrl, table);
+    const attributes = await metadataService.getAttributes(orgUrl, entity.logicalName);
+    
+    return attributes.flatMap(attribute => isLookupAttribute(attribute)
+      ? [attribute.logicalName, `_${attribute.logicalName}_value`]
+      : [attribute.logicalName]);
+  }
+  
+  private highlightSyntaxError(error: SqlSyntaxError): void {
+    // Select the offending token so the user can see where parsing failed
+    this.sqlQueryTextarea.focus();
+    this.sqlQueryTextarea.setSelectionRange(error.offset, error.offset + error.length);
+  }
+  
+  private highlightValidationError(error: QueryValidationError): void {
+    // Select the first column the validator could locate
+    const issue = error.issues.find(item => item.position);
+    if (issue?.position) {
+      this.sqlQueryTextarea.focus();
+      this.sqlQueryTextarea.setSelectionRange(issue.position.offset, issue.position.offset + (issue.length || 1));
+    }
+  }
+  
+  private async showFetchXml(): Promise<void> {
+    const query = this.sqlQueryTextarea.value.trim();
+    
+    if (!query) {
+      this.showStatus('Please enter a SQL query', 'error');
+      return;
+    }
+    
+    try {
+      const parsedQuery = sqlParser.parse(query);
+      await this.initializeApi();
+      this.displayFetchXml(await dynamicsApi.buildFetchXml(parsedQuery));
+      this.showStatus('FetchXML generated', 'success');
+    } catch (error) {
+      if (error instanceof SqlSyntaxError) {
+        this.showStatus(`Syntax error: ${error.message}`, 'error');
+        this.highlightSyntaxError(error);
+      } else if (error instanceof Error) {
+        this.showStatus(`Error: ${error.message}`, 'error');
       }
     }
+  }
+  
+  private displayFetchXml(fetchXml: string): void {
+    this.fetchXmlOutput.textContent = fetchXml;
+    this.fetchXmlSection.classList.remove('hidden');
+  }
+  
+  private async copyFetchXml(): Promise<void> {
+    await navigator.clipboard.writeText(this.fetchXmlOutput.textContent || '');
+    this.showStatus('FetchXML copied to clipboard', 'success');
+  }
+  
+  private async importFetchXml(): Promise<void> {
+    const fetchXml = this.fetchXmlInput.value.trim();
+    
+    if (!fetchXml) {
+      this.showStatus('Please paste a FetchXML query', 'error');
+      return;
+    }
     
-    return url;
+    try {
+      const imported = fetchXmlParser.parse(fetchXml);
+      const { warnings } = imported;
+      const query = await this.typeImportedValues(imported.query, warnings);
+      
+      this.editor.setValue(sqlFormatter.format(query));
+      this.saveQuery();
+      
+      // List anything that did not round-trip so the user can fix it by hand
+      this.importWarnings.innerHTML = '';
+      warnings.forEach(warning => {
+        const li = document.createElement('li');
+        li.textContent = warning;
+        this.importWarnings.appendChild(li);
+      });
+      this.importWarnings.classList.toggle('hidden', warnings.length === 0);
+      
+      if (warnings.length > 0) {
+        this.showStatus(`FetchXML imported with ${warnings.length} warning(s)`, 'error');
+      } else {
+        this.importSection.classList.add('hidden');
+        this.showStatus('FetchXML imported', 'success');
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        this.showStatus(`Error: ${error.message}`, 'error');
+      }
+    }
+  }
+  
+  // FetchXML values are all text; column metadata tells which are numbers or booleans
+  private async typeImportedValues(query: ParsedQuery, warnings: string[]): Promise<ParsedQuery> {
+    try {
+      const orgUrl = await this.getOrgUrl();
+      const tables = new Map<string, AttributeMetadata[]>();
+      tables.set(query.entity, await metadataService.getAttributes(orgUrl, query.entity));
+      for (const join of query.joins || []) {
+        tables.set(join.alias, await metadataService.getAttributes(orgUrl, join.entity));
+      }
+      return fetchXmlParser.applyColumnTypes(query, tables);
+    } catch (error) {
+      warnings.push('Column types could not be loaded, so every value was imported as text');
+      return query;
+    }
   }
   
   private clearQuery(): void {
-    this.sqlQueryTextarea.value = '';
+    this.editor.setValue('');
     this.showStatus('Ready', 'normal');
   }
   
-  private exportResults(): void {
-    // Implementation of exportResults method
+  private async exportResults(): Promise<void> {
+    if (!this.currentResult || this.currentResult.rows.length === 0) {
+      this.showStatus('No results to export', 'error');
+      return;
+    }
+    
+    // Name the file after the environment the records came from
+    const connection = await connectionManager.findByOrgUrl(this.currentResult.orgUrl);
+    const source = connection ? connection.name.replace(/[^\w-]+/g, '-') : 'query';
+    
+    const formatted = this.exportValuesSelect.value === 'formatted';
+    const csv = resultsHandler.exportToCsv(this.currentResult, formatted);
+    resultsHandler.downloadCsv(csv, `${source}-results-${new Date().toISOString().slice(0, 10)}.csv`);
+    
+    this.showStatus(`Exported ${this.currentResult.rows.length} record(s) with ${formatted ? 'formatted' : 'raw'} values`, 'success');
   }
   
-  private processQueryResults(results: any[]): void {
+  private processQueryResults(results: any[], orgUrl: string): void {
     if (!results || results.length === 0) {
       this.showStatus('No results found', 'normal');
       return;
@@ -303,8 +1086,11 @@ class QueryToolController {
     // Make results section visible
     this.resultsSection.classList.remove('hidden');
     
-    // Get column names from the first result
-    const columns = Object.keys(results[0]);
+    // Pair each value with its formatted value; columns come from every
+    // result, since FetchXML omits null columns
+    this.currentResult = resultsHandler.formatResults({ data: results, orgUrl, executionTime: 0 });
+    this.showResultsConnection(orgUrl);
+    const { columns } = this.currentResult;
     
     // Create header row
     this.resultsHeader.innerHTML = '';
@@ -319,18 +1105,21 @@ class QueryToolController {
     
     this.resultsHeader.appendChild(headerRow);
     
-    // Store the formatted result
-    this.currentResult = {
-      columns,
-      rows: results.map(item => columns.map(col => item[col])),
-      totalCount: results.length,
-      executionTime: 0
-    };
-    
-    // Create result rows (paginated) - moved after setting currentResult
+    // Create result rows (paginated)
     this.displayResultPage();
   }
   
+  // Tag the results with the organization they came from
+  private async showResultsConnection(orgUrl: string): Promise<void> {
+    if (!orgUrl) {
+      this.resultsConnection.classList.add('hidden');
+      return;
+    }
+    
+    this.styleConnectionTag(this.resultsConnection, orgUrl, await connectionManager.findByOrgUrl(orgUrl));
+    this.resultsConnection.classList.remove('hidden');
+  }
+  
   private displayResultPage(): void {
     if (!this.currentResult) return;
     
@@ -344,20 +1133,7 @@ class QueryToolController {
       const row = rows[i];
       const tr = document.createElement('tr');
       
-      row.forEach(cell => {
-        const td = document.createElement('td');
-        
-        if (cell === null || cell === undefined) {
-          td.textContent = 'null';
-          td.classList.add('null-value');
-        } else if (typeof cell === 'object') {
-          td.textContent = JSON.stringify(cell);
-        } else {
-          td.textContent = String(cell);
-        }
-        
-        tr.appendChild(td);
-      });
+      row.forEach(cell => tr.appendChild(this.createResultCell(cell)));
       
       this.resultsBody.appendChild(tr);
     }
@@ -366,6 +1142,56 @@ class QueryToolController {
     this.updatePagination();
   }
   
+  private createCell(cell: any): HTMLTableCellElement {
+    const td = document.createElement('td');
+    
+    td.textContent = this.getCellText(cell);
+    if (cell === null || cell === undefined) {
+      td.classList.add('null-value');
+    }
+    
+    return td;
+  }
+  
+  private getCellText(value: any): string {
+    if (value === null || value === undefined) {
+      return 'null';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  
+  // The raw value stays available as a tooltip while formatted values are shown
+  private createResultCell(cell: ResultCell): HTMLTableCellElement {
+    const showFormatted = this.showFormattedCheckbox.checked;
+    const td = this.createCell(resultsHandler.getCellValue(cell, showFormatted));
+    
+    if (showFormatted && cell.formatted !== undefined) {
+      td.title = cell.lookupLogicalName ? `${cell.lookupLogicalName}: ${cell.value}` : String(cell.value);
+    }
+    
+    return td;
+  }
+  
+  // Fill a table with records, without sorting or paging
+  private renderTable(table: HTMLTableElement, records: any[]): void {
+    const columns = resultsHandler.getColumns(records);
+    
+    table.innerHTML = '';
+    
+    const headerRow = table.createTHead().insertRow();
+    columns.forEach(column => {
+      const th = document.createElement('th');
+      th.textContent = column;
+      headerRow.appendChild(th);
+    });
+    
+    const body = table.createTBody();
+    records.forEach(record => {
+      const tr = body.insertRow();
+      columns.forEach(column => tr.appendChild(this.createCell(record[column])));
+    });
+  }
+  
   private updatePagination(): void {
     if (!this.currentResult) return;
     
@@ -409,8 +1235,8 @@ class QueryToolController {
     
     // Sort the rows
     this.currentResult.rows.sort((a, b) => {
-      const valueA = a[columnIndex];
-      const valueB = b[columnIndex];
+      const valueA = this.getSortValue(a[columnIndex]);
+      const valueB = this.getSortValue(b[columnIndex]);
       
       // Handle null values
       if (valueA === null && valueB === null) return 0;
@@ -434,6 +1260,25 @@ class QueryToolController {
     this.displayResultPage();
   }
   
+  // Lookups sort by the name shown; other columns keep the order of their raw values
+  private getSortValue(cell: ResultCell): any {
+    return cell.lookupLogicalName && this.showFormattedCheckbox.checked
+      ? resultsHandler.getCellValue(cell, true)
+      : cell.value;
+  }
+  
+  // The status bar only has room for the message
+  private showErrorDetails(error: WebApiError): void {
+    const lines = [`HTTP ${error.status}${error.code ? `, error code ${error.code}` : ''}`, error.message];
+    
+    if (error.innerError) {
+      lines.push('', `Inner exception${error.innerError.type ? ` (${error.innerError.type})` : ''}:`, error.innerError.message);
+    }
+    
+    this.errorDetails.textContent = lines.join('\n');
+    this.errorDetails.classList.remove('hidden');
+  }
+  
   private showStatus(message: string, type: 'normal' | 'error' | 'success'): void {
     this.statusMessage.textContent = message;
     this.statusMessage.className = type;
@@ -0,0 +1,152 @@
+import queryValidator, { QueryValidationError, ValidationOptions } from './query-validator';
+import sqlParser from './sql-parser';
+import { AttributeMetadata, AttributeType, LookupRelationship } from './metadata-service';
+
+function attribute(logicalName: string, attributeType: AttributeType): AttributeMetadata {
+  return {
+    logicalName,
+    attributeType,
+    requiredLevel: 'None',
+    isCustom: false,
+    validForCreate: true,
+    validForUpdate: true
+  };
+}
+
+const CONTACT_COLUMNS = [
+  attribute('contactid', 'Uniqueidentifier'),
+  attribute('fullname', 'String'),
+  attribute('emailaddress1', 'String'),
+  attribute('numberofchildren', 'Integer'),
+  attribute('birthdate', 'DateTime'),
+  attribute('donotemail', 'Boolean'),
+  attribute('parentcustomerid', 'Customer')
+];
+
+const CONTACT_LOOKUPS: LookupRelationship[] = ['account', 'contact'].map(referencedEntity => ({
+  navigationProperty: `parentcustomerid_${referencedEntity}`,
+  referencingAttribute: 'parentcustomerid',
+  referencedEntity
+}));
+
+// The messages of the issues found in a query against the contact table
+function issuesOf(sql: string, options: ValidationOptions = { fetchXml: false }): string[] {
+  try {
+    queryValidator.validate(sqlParser.parse(sql), new Map([['contact', CONTACT_COLUMNS]]), options);
+  } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return error.issues.map(issue => issue.message);
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('QueryValidator', () => {
+  describe('unknown columns', () => {
+    it('suggests the closest column name', () => {
+      expect(issuesOf('SELECT fulname FROM contact'))
+        .toEqual(["Unknown column 'fulname' in table 'contact'. Did you mean 'fullname'?"]);
+      expect(issuesOf('SELECT emailadress1 FROM contact'))
+        .toEqual(["Unknown column 'emailadress1' in table 'contact'. Did you mean 'emailaddress1'?"]);
+    });
+
+    it('suggests a column that only differs in case', () => {
+      expect(issuesOf('SELECT FullName FROM contact'))
+        .toEqual(["Unknown column 'FullName' in table 'contact'. Did you mean 'fullname'?"]);
+    });
+
+    it('makes no suggestion when nothing is close', () => {
+      expect(issuesOf('SELECT telephone FROM contact')).toEqual(["Unknown column 'telephone' in table 'contact'"]);
+    });
+
+    it('suggests lookups in the form the query runs in', () => {
+      expect(issuesOf('SELECT _parentcustomer_value FROM contact'))
+        .toEqual(["Unknown column '_parentcustomer_value' in table 'contact'. Did you mean '_parentcustomerid_value'?"]);
+      expect(issuesOf('SELECT parentcustomer FROM contact', { fetchXml: true }))
+        .toEqual(["Unknown column 'parentcustomer' in table 'contact'. Did you mean 'parentcustomerid'?"]);
+    });
+  });
+
+  describe('lookup columns', () => {
+    it('requires _name_value over OData', () => {
+      expect(issuesOf('SELECT fullname FROM contact WHERE parentcustomerid IS NULL'))
+        .toEqual(["Lookup column 'parentcustomerid' must be written as '_parentcustomerid_value' in OData queries"]);
+      expect(issuesOf('SELECT _parentcustomerid_value FROM contact WHERE _parentcustomerid_value IS NULL')).toEqual([]);
+    });
+
+    it('requires the logical name in FetchXML', () => {
+      expect(issuesOf('SELECT fullname FROM contact WHERE _parentcustomerid_value IS NULL', { fetchXml: true }))
+        .toEqual(["Lookup column '_parentcustomerid_value' is written as 'parentcustomerid' in FetchXML queries"]);
+      expect(issuesOf('SELECT parentcustomerid FROM contact WHERE parentcustomerid IS NULL', { fetchXml: true }))
+        .toEqual([]);
+    });
+  });
+
+  describe('literal types', () => {
+    it('accepts values that fit their columns', () => {
+      expect(issuesOf(
+        "SELECT fullname FROM contact WHERE numberofchildren > 2 AND birthdate < '2000-01-31' " +
+        "AND donotemail = TRUE AND _parentcustomerid_value = '00000000-0000-0000-0000-000000000001' " +
+        'AND fullname IS NOT NULL'
+      )).toEqual([]);
+    });
+
+    it('reports values that do not fit their columns', () => {
+      expect(issuesOf(
+        "SELECT fullname FROM contact WHERE numberofchildren = 'two' OR fullname = 5 OR birthdate > 'soon' " +
+        "OR donotemail = 'yes' OR _parentcustomerid_value = 'Contoso'"
+      )).toEqual([
+        "Column 'numberofchildren' is Integer and expects a number, but got 'two'",
+        "Column 'fullname' is String and expects text, but got 5",
+        "Column 'birthdate' is DateTime and expects a date such as '2024-01-31', but got 'soon'",
+        "Column 'donotemail' is Boolean and expects TRUE or FALSE, but got 'yes'",
+        "Column '_parentcustomerid_value' is Customer and expects a GUID, but got 'Contoso'"
+      ]);
+    });
+
+    it('checks every value of IN and BETWEEN', () => {
+      expect(issuesOf(
+        "SELECT fullname FROM contact WHERE numberofchildren IN (1, 'x') OR numberofchildren BETWEEN 'a' AND 3"
+      )).toEqual([
+        "Column 'numberofchildren' is Integer and expects a number, but got 'x'",
+        "Column 'numberofchildren' is Integer and expects a number, but got 'a'"
+      ]);
+    });
+  });
+
+  describe('INSERT and UPDATE values', () => {
+    const options: ValidationOptions = { fetchXml: false, lookupRelationships: CONTACT_LOOKUPS };
+
+    it('checks the type of each value', () => {
+      expect(issuesOf("UPDATE contact SET numberofchildren = 'many' WHERE fullname = 'A'", options))
+        .toEqual(["Column 'numberofchildren' is Integer and expects a number, but got 'many'"]);
+    });
+
+    it('points lookup columns to their navigation properties', () => {
+      const binding = 'Set [parentcustomerid_account@odata.bind] (account) or ' +
+        "[parentcustomerid_contact@odata.bind] (contact) to '/<entity set>(<id>)' instead";
+      expect(issuesOf(
+        "UPDATE contact SET parentcustomerid = '00000000-0000-0000-0000-000000000001' WHERE fullname = 'A'",
+        options
+      )).toEqual([`Lookup column 'parentcustomerid' cannot be set directly. ${binding}`]);
+      expect(issuesOf("INSERT INTO contact (fullname, _parentcustomerid_value) VALUES ('A', NULL)", options))
+        .toEqual([`Lookup column '_parentcustomerid_value' cannot be set directly. ${binding}`]);
+    });
+
+    it('accepts lookups set through a navigation property', () => {
+      expect(issuesOf(
+        "UPDATE contact SET [parentcustomerid_account@odata.bind] = '/accounts(00000000-0000-0000-0000-000000000001)' " +
+        "WHERE fullname = 'A'",
+        options
+      )).toEqual([]);
+    });
+
+    it('falls back to a placeholder without the navigation properties', () => {
+      expect(issuesOf("UPDATE contact SET parentcustomerid = NULL WHERE fullname = 'A'")).toEqual([
+        "Lookup column 'parentcustomerid' cannot be set directly. " +
+        "Set [<navigation property>@odata.bind] to '/<entity set>(<id>)' instead"
+      ]);
+    });
+  });
+});
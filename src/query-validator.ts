@@ -0,0 +1,354 @@
+/**
+ * Query Validator for Dynamics CRM SQL Query Extension
+ *
+ * Checks parsed queries against table metadata before they are sent, so
+ * mistakes are reported with suggestions instead of a raw HTTP 400
+ */
+
+import { ParsedQuery } from './sql-parser';
+import { Expression, ColumnReference, Literal, LiteralValue, QueryFunctionName } from './sql-ast';
+import { SourcePosition } from './sql-lexer';
+import { AttributeMetadata, AttributeType, LookupRelationship, isLookupAttribute } from './metadata-service';
+
+export interface ValidationIssue {
+  message: string;
+  // Where the problem is in the SQL text, when known
+  position?: SourcePosition;
+  length?: number;
+}
+
+export class QueryValidationError extends Error {
+  constructor(public issues: ValidationIssue[]) {
+    super(issues.map(issue => issue.message).join('; '));
+    this.name = 'QueryValidationError';
+  }
+}
+
+export interface ValidationOptions {
+  // FetchXML names lookups by logical name; OData needs _name_value
+  fetchXml: boolean;
+  // Lookups of the table an INSERT or UPDATE writes to, to suggest their navigation properties
+  lookupRelationships?: LookupRelationship[];
+}
+
+const NUMBER_TYPES: AttributeType[] = ['BigInt', 'Decimal', 'Double', 'Integer', 'Money', 'Picklist', 'State', 'Status'];
+
+const TEXT_TYPES: AttributeType[] = ['String', 'Memo', 'EntityName'];
+
+const ID_TYPES: AttributeType[] = ['Uniqueidentifier', 'Lookup', 'Customer', 'Owner'];
+
+const FUNCTION_TYPES: Record<QueryFunctionName, AttributeType[]> = {
+  'LAST_X_DAYS': ['DateTime'],
+  'THIS_MONTH': ['DateTime'],
+  'TODAY': ['DateTime'],
+  'CURRENT_USER': ID_TYPES,
+  'CURRENT_BUSINESS_UNIT': ID_TYPES,
+  'UNDER': ID_TYPES
+};
+
+const GUID_PATTERN = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+
+const LOOKUP_VALUE_PATTERN = /^_(.+)_value$/;
+
+interface ValidationContext {
+  query: ParsedQuery;
+  // Columns of each table, keyed by table alias
+  tables: Map<string, AttributeMetadata[]>;
+  options: ValidationOptions;
+  issues: ValidationIssue[];
+}
+
+export class QueryValidator {
+  /**
+   * Validate a query whose table names have been resolved to logical names.
+   * Throws a QueryValidationError listing every problem found.
+   */
+  validate(query: ParsedQuery, tables: Map<string, AttributeMetadata[]>, options: ValidationOptions): void {
+    const context: ValidationContext = { query, tables, options, issues: [] };
+    const baseAlias = query.alias || query.entity;
+
+    (query.fields || []).forEach(field => this.checkColumn(context, field, baseAlias));
+
+    (query.joins || []).forEach(join => {
+      // Join conditions always use logical names
+      this.checkColumn(context, join.from, join.alias, { anyLookupForm: true });
+      this.checkColumn(context, join.to, join.toAlias, { anyLookupForm: true });
+      (join.fields || []).forEach(field => this.checkColumn(context, field, join.alias));
+    });
+
+    // Aggregate queries order by result names, which are not columns
+    if (query.aggregates) {
+      (query.groupBy || [])
+        .filter(group => group.alias)
+        .forEach(group => this.checkColumn(context, group.field, group.alias!));
+      query.aggregates
+        .filter(aggregate => aggregate.field)
+        .forEach(aggregate => this.checkColumn(context, aggregate.field!, aggregate.alias || baseAlias));
+    } else {
+      (query.orderBy || []).forEach(item => this.checkColumn(context, item.field, item.alias || baseAlias));
+    }
+
+    if (query.where) {
+      this.checkExpression(context, query.where, baseAlias);
+    }
+
+    if (query.values) {
+      Object.entries(query.values)
+        // Lookups are set through navigation properties such as parentcustomerid_account@odata.bind
+        .filter(([field]) => !field.includes('@'))
+        .forEach(([field, value]) => {
+          const attribute = this.checkColumn(context, field, baseAlias, { anyLookupForm: true });
+          if (attribute && isLookupAttribute(attribute)) {
+            this.addIssue(context, this.describeLookupBinding(context, field, attribute));
+          } else if (attribute) {
+            this.checkValue(context, attribute, field, value);
+          }
+        });
+    }
+
+    if (context.issues.length > 0) {
+      throw new QueryValidationError(context.issues);
+    }
+  }
+
+  private checkExpression(context: ValidationContext, expression: Expression, baseAlias: string): void {
+    const column = (reference: ColumnReference) =>
+      this.checkColumn(context, reference.name, reference.table || baseAlias, { reference });
+
+    switch (expression.type) {
+      case 'Logical':
+        this.checkExpression(context, expression.left, baseAlias);
+        this.checkExpression(context, expression.right, baseAlias);
+        return;
+      case 'Not':
+        this.checkExpression(context, expression.operand, baseAlias);
+        return;
+      case 'Comparison': {
+        const { left, right } = expression;
+        if (left.type === 'Column' && right.type === 'Column') {
+          column(left);
+          column(right);
+        } else if (left.type === 'Column' && right.type === 'Literal') {
+          this.checkLiterals(context, column(left), left, [right]);
+        } else if (left.type === 'Literal' && right.type === 'Column') {
+          this.checkLiterals(context, column(right), right, [left]);
+        }
+        return;
+      }
+      case 'Like': {
+        const attribute = column(expression.operand);
+        if (attribute && !TEXT_TYPES.includes(attribute.attributeType)) {
+          this.addIssue(
+            context,
+            `LIKE needs a text column, but '${expression.operand.name}' is ${attribute.attributeType}`,
+            expression.operand
+          );
+        }
+        return;
+      }
+      case 'In':
+        this.checkLiterals(context, column(expression.operand), expression.operand, expression.values);
+        return;
+      case 'Between':
+        this.checkLiterals(context, column(expression.operand), expression.operand, [expression.lower, expression.upper]);
+        return;
+      case 'IsNull':
+        column(expression.operand);
+        return;
+      case 'Function': {
+        const attribute = column(expression.operand);
+        const types = FUNCTION_TYPES[expression.function];
+        if (attribute && !types.includes(attribute.attributeType)) {
+          this.addIssue(
+            context,
+            `${expression.function}() cannot be applied to '${expression.operand.name}', which is ${attribute.attributeType}`,
+            expression.operand
+          );
+        }
+        if (expression.argument && expression.function === 'UNDER' && !GUID_PATTERN.test(String(expression.argument.value))) {
+          this.addIssue(context, `UNDER() expects a GUID but got ${this.describe(expression.argument.value)}`);
+        }
+        return;
+      }
+    }
+  }
+
+  private checkLiterals(
+    context: ValidationContext,
+    attribute: AttributeMetadata | null,
+    reference: ColumnReference,
+    literals: Literal[]
+  ): void {
+    if (attribute) {
+      literals.forEach(literal => this.checkValue(context, attribute, reference.name, literal.value, reference));
+    }
+  }
+
+  private checkValue(
+    context: ValidationContext,
+    attribute: AttributeMetadata,
+    name: string,
+    value: LiteralValue,
+    reference?: ColumnReference
+  ): void {
+    const expected = this.expectedValue(attribute.attributeType, value);
+    if (expected) {
+      this.addIssue(
+        context,
+        `Column '${name}' is ${attribute.attributeType} and expects ${expected}, but got ${this.describe(value)}`,
+        reference
+      );
+    }
+  }
+
+  // Describe the expected kind of value when a literal does not fit a column, or null if it does
+  private expectedValue(type: AttributeType, value: LiteralValue): string | null {
+    if (value === null) {
+      return null;
+    }
+    if (NUMBER_TYPES.includes(type)) {
+      return typeof value === 'number' ? null : 'a number';
+    }
+    if (TEXT_TYPES.includes(type)) {
+      return typeof value === 'string' ? null : 'text';
+    }
+    if (ID_TYPES.includes(type)) {
+      return typeof value === 'string' && GUID_PATTERN.test(value) ? null : 'a GUID';
+    }
+    switch (type) {
+      case 'Boolean':
+        return typeof value === 'boolean' || value === 0 || value === 1 ? null : 'TRUE or FALSE';
+      case 'DateTime':
+        return typeof value === 'string' && !isNaN(Date.parse(value)) ? null : 'a date such as \'2024-01-31\'';
+    }
+    return null;
+  }
+
+  /**
+   * Find a column in a table, reporting unknown names and lookups written
+   * in the wrong form for the way the query runs
+   */
+  private checkColumn(
+    context: ValidationContext,
+    name: string,
+    alias: string,
+    check: { reference?: ColumnReference; anyLookupForm?: boolean } = {}
+  ): AttributeMetadata | null {
+    const attributes = context.tables.get(alias);
+    if (!attributes) {
+      return null;
+    }
+
+    const { fetchXml } = context.options;
+    const join = (context.query.joins || []).find(item => item.alias === alias);
+    const table = join ? join.entity : context.query.entity;
+
+    const attribute = attributes.find(item => item.logicalName === name);
+    if (attribute) {
+      if (isLookupAttribute(attribute) && !fetchXml && !check.anyLookupForm) {
+        this.addIssue(
+          context,
+          `Lookup column '${name}' must be written as '_${name}_value' in OData queries`,
+          check.reference
+        );
+      }
+      return attribute;
+    }
+
+    const lookupMatch = name.match(LOOKUP_VALUE_PATTERN);
+    const lookup = lookupMatch && attributes.find(item =>
+      item.logicalName === lookupMatch[1] && isLookupAttribute(item)
+    );
+    if (lookup) {
+      if (fetchXml && !check.anyLookupForm) {
+        this.addIssue(
+          context,
+          `Lookup column '${name}' is written as '${lookup.logicalName}' in FetchXML queries`,
+          check.reference
+        );
+      }
+      return lookup;
+    }
+
+    // Offer the names that would be valid here
+    const candidates = attributes.map(item =>
+      isLookupAttribute(item) && !fetchXml && !check.anyLookupForm
+        ? `_${item.logicalName}_value`
+        : item.logicalName
+    );
+    const suggestion = this.suggest(name, candidates);
+    this.addIssue(
+      context,
+      `Unknown column '${name}' in table '${table}'` + (suggestion ? `. Did you mean '${suggestion}'?` : ''),
+      check.reference
+    );
+    return null;
+  }
+
+  private suggest(name: string, candidates: string[]): string | null {
+    const lowerName = name.toLowerCase();
+
+    const sameName = candidates.find(candidate => candidate.toLowerCase() === lowerName);
+    if (sameName) {
+      return sameName;
+    }
+
+    // Allow roughly one typo per three characters
+    const maxDistance = Math.max(2, Math.floor(name.length / 3));
+    let best: string | null = null;
+    let bestDistance = maxDistance + 1;
+
+    candidates.forEach(candidate => {
+      const distance = this.editDistance(lowerName, candidate.toLowerCase());
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    });
+
+    return best;
+  }
+
+  // Levenshtein distance
+  private editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+        current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
+  private describe(value: LiteralValue): string {
+    if (value === null) return 'NULL';
+    if (typeof value === 'string') return `'${value}'`;
+    return String(value).toUpperCase();
+  }
+
+  // The Web API only sets lookups through a navigation property, with the record as /entityset(id)
+  private describeLookupBinding(context: ValidationContext, field: string, attribute: AttributeMetadata): string {
+    const bindings = (context.options.lookupRelationships || [])
+      .filter(relationship => relationship.referencingAttribute === attribute.logicalName)
+      .map(relationship => `[${relationship.navigationProperty}@odata.bind] (${relationship.referencedEntity})`);
+    const columns = bindings.length > 0 ? bindings.join(' or ') : '[<navigation property>@odata.bind]';
+    return `Lookup column '${field}' cannot be set directly. Set ${columns} to '/<entity set>(<id>)' instead`;
+  }
+
+  private addIssue(context: ValidationContext, message: string, reference?: ColumnReference): void {
+    context.issues.push(reference
+      ? { message, position: reference.position, length: this.referenceLength(reference) }
+      : { message });
+  }
+
+  private referenceLength(reference: ColumnReference): number {
+    return reference.table ? reference.table.length + 1 + reference.name.length : reference.name.length;
+  }
+}
+
+export default new QueryValidator();
@@ -2,19 +2,68 @@
  * Record Inspector script for Dynamics CRM Toolkit
  */
 
-import dynamicsApi from './dynamics-api';
+import dynamicsApi, { RecordReference } from './dynamics-api';
 import resultsHandler from './results-handler';
+import metadataService, {
+  AttributeMetadata,
+  RelationshipMetadata,
+  RelationshipType,
+  RequiredLevel,
+  isLookupAttribute
+} from './metadata-service';
+import { FieldEditor } from './field-editor';
+import { WebApiError } from './web-api-client';
+import { connectTransport } from './web-api-transport';
+import connectionManager, { Connection, getOrgUrl } from './connection-manager';
 
 interface FieldInfo {
   displayName: string;
   schemaName: string;
   value: any;
   type: string;
+  // The other record's value, while comparing
+  compareValue?: any;
+  different?: boolean;
+  // Missing for properties the table's metadata does not describe
+  attribute?: AttributeMetadata;
 }
 
+// A record visited before the current one, when drilling into related records
+interface BreadcrumbItem {
+  entityName: string;
+  recordId: string;
+  label: string;
+}
+
+const GUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+const FORMATTED_SUFFIX = '@OData.Community.Display.V1.FormattedValue';
+const LOOKUP_TABLE_SUFFIX = '@Microsoft.Dynamics.CRM.lookuplogicalname';
+
+// As the requirement levels are named in the Dynamics form designer
+const REQUIRED_LEVEL_LABELS: Record<RequiredLevel, string> = {
+  None: 'Optional',
+  Recommended: 'Business recommended',
+  ApplicationRequired: 'Business required',
+  SystemRequired: 'System required'
+};
+
+const RELATIONSHIP_TYPE_LABELS: Record<RelationshipType, string> = {
+  OneToMany: 'One-to-many',
+  ManyToOne: 'Many-to-one',
+  ManyToMany: 'Many-to-many'
+};
+
+// Related records listed under a relationship; the query tool shows them all
+const RELATED_SAMPLE_SIZE = 10;
+
+// Relationships counted at once, to stay clear of the service protection limits
+const COUNT_CONCURRENCY = 4;
+
 class RecordInspectorController {
   private entityNameElement!: HTMLElement;
   private recordIdElement!: HTMLElement;
+  private recordConnection!: HTMLElement;
   private statusMessage!: HTMLElement;
   private fieldFilterInput!: HTMLInputElement;
   private showNullCheckbox!: HTMLInputElement;
@@ -22,20 +71,72 @@ class RecordInspectorController {
   private fieldsBody!: HTMLElement;
   private exportButton!: HTMLButtonElement;
   private backButton!: HTMLButtonElement;
+  private compareConnectionSelect!: HTMLSelectElement;
+  private compareRecordIdInput!: HTMLInputElement;
+  private compareButton!: HTMLButtonElement;
+  private exitCompareButton!: HTMLButtonElement;
+  private onlyDifferencesOption!: HTMLElement;
+  private onlyDifferencesCheckbox!: HTMLInputElement;
+  private valueHeader!: HTMLElement;
+  private compareValueHeader!: HTMLElement;
+  private editButton!: HTMLButtonElement;
+  private saveButton!: HTMLButtonElement;
+  private cancelEditButton!: HTMLButtonElement;
+  private confirmDialog!: HTMLDialogElement;
+  private confirmTitle!: HTMLElement;
+  private confirmSummary!: HTMLElement;
+  private confirmChanges!: HTMLElement;
+  private confirmChangesBody!: HTMLElement;
+  private confirmTyped!: HTMLElement;
+  private confirmTypedLabel!: HTMLElement;
+  private confirmInput!: HTMLInputElement;
+  private confirmOkButton!: HTMLButtonElement;
+  private confirmCancelButton!: HTMLButtonElement;
+  private breadcrumbs!: HTMLElement;
+  private fieldsTab!: HTMLButtonElement;
+  private relationshipsTab!: HTMLButtonElement;
+  private fieldsPanel!: HTMLElement;
+  private relationshipsPanel!: HTMLElement;
+  private relationshipFilterInput!: HTMLInputElement;
+  private relationshipsBody!: HTMLElement;
   
   private entityName = '';
   private recordId = '';
+  // Organization of the tab the record was opened from
+  private orgUrl = '';
   private allFields: FieldInfo[] = [];
+  private visibleFields: FieldInfo[] = [];
+  private record: any = null;
+  // Column definitions by the property name the record has them under
+  private attributes = new Map<string, AttributeMetadata>();
+  // The record shown next to this one in compare mode
+  private compareRecord: any = null;
+  // Inputs of the fields that can be changed, by schema name, while editing
+  private editors = new Map<string, FieldEditor>();
+  private editing = false;
+  // Settles the open confirmation dialog
+  private resolveConfirmation: ((confirmed: boolean) => void) | null = null;
+  private confirmationText = '';
+  // Loaded when the Relationships tab is first shown for a record
+  private relationships: RelationshipMetadata[] | null = null;
+  // Related record counts as shown, by relationship schema name
+  private relatedCounts = new Map<string, string>();
+  // Why a count could not be loaded, shown as the tooltip of its "?"
+  private countErrors = new Map<string, string>();
+  private countCells = new Map<string, HTMLElement>();
+  private trail: BreadcrumbItem[] = [];
   
   constructor() {
     this.initElements();
     this.initEventListeners();
+    dynamicsApi.setNoticeListener(message => this.showStatus(message, 'normal'));
     this.loadRecordInfo();
   }
   
   private initElements(): void {
     this.entityNameElement = document.getElementById('entity-name') as HTMLElement;
     this.recordIdElement = document.getElementById('record-id') as HTMLElement;
+    this.recordConnection = document.getElementById('record-connection') as HTMLElement;
     this.statusMessage = document.getElementById('status-message') as HTMLElement;
     this.fieldFilterInput = document.getElementById('field-filter') as HTMLInputElement;
     this.showNullCheckbox = document.getElementById('show-null') as HTMLInputElement;
@@ -43,6 +144,34 @@ class RecordInspectorController {
     this.fieldsBody = document.getElementById('fields-body') as HTMLElement;
     this.exportButton = document.getElementById('export-btn') as HTMLButtonElement;
     this.backButton = document.getElementById('back-btn') as HTMLButtonElement;
+    this.compareConnectionSelect = document.getElementById('compare-connection') as HTMLSelectElement;
+    this.compareRecordIdInput = document.getElementById('compare-record-id') as HTMLInputElement;
+    this.compareButton = document.getElementById('compare-btn') as HTMLButtonElement;
+    this.exitCompareButton = document.getElementById('exit-compare-btn') as HTMLButtonElement;
+    this.onlyDifferencesOption = document.getElementById('only-differences-option') as HTMLElement;
+    this.onlyDifferencesCheckbox = document.getElementById('only-differences') as HTMLInputElement;
+    this.valueHeader = document.getElementById('value-header') as HTMLElement;
+    this.compareValueHeader = document.getElementById('compare-value-header') as HTMLElement;
+    this.editButton = document.getElementById('edit-btn') as HTMLButtonElement;
+    this.saveButton = document.getElementById('save-btn') as HTMLButtonElement;
+    this.cancelEditButton = document.getElementById('cancel-edit-btn') as HTMLButtonElement;
+    this.confirmDialog = document.getElementById('confirm-dialog') as HTMLDialogElement;
+    this.confirmTitle = document.getElementById('confirm-title') as HTMLElement;
+    this.confirmSummary = document.getElementById('confirm-summary') as HTMLElement;
+    this.confirmChanges = document.getElementById('confirm-changes') as HTMLElement;
+    this.confirmChangesBody = document.getElementById('confirm-changes-body') as HTMLElement;
+    this.confirmTyped = document.getElementById('confirm-typed') as HTMLElement;
+    this.confirmTypedLabel = document.getElementById('confirm-typed-label') as HTMLElement;
+    this.confirmInput = document.getElementById('confirm-input') as HTMLInputElement;
+    this.confirmOkButton = document.getElementById('confirm-ok-btn') as HTMLButtonElement;
+    this.confirmCancelButton = document.getElementById('confirm-cancel-btn') as HTMLButtonElement;
+    this.breadcrumbs = document.getElementById('breadcrumbs') as HTMLElement;
+    this.fieldsTab = document.getElementById('fields-tab') as HTMLButtonElement;
+    this.relationshipsTab = document.getElementById('relationships-tab') as HTMLButtonElement;
+    this.fieldsPanel = document.getElementById('fields-panel') as HTMLElement;
+    this.relationshipsPanel = document.getElementById('relationships-panel') as HTMLElement;
+    this.relationshipFilterInput = document.getElementById('relationship-filter') as HTMLInputElement;
+    this.relationshipsBody = document.getElementById('relationships-body') as HTMLElement;
   }
   
   private initEventListeners(): void {
@@ -51,17 +180,38 @@ class RecordInspectorController {
     this.showSystemCheckbox.addEventListener('change', () => this.filterFields());
     this.exportButton.addEventListener('click', () => this.exportFields());
     this.backButton.addEventListener('click', () => window.close());
+    this.compareButton.addEventListener('click', () => this.compareRecords());
+    this.exitCompareButton.addEventListener('click', () => this.exitCompare());
+    this.onlyDifferencesCheckbox.addEventListener('change', () => this.filterFields());
+    this.editButton.addEventListener('click', () => this.startEditing());
+    this.saveButton.addEventListener('click', () => this.saveChanges());
+    this.cancelEditButton.addEventListener('click', () => this.stopEditing());
+    this.fieldsTab.addEventListener('click', () => this.showTab('fields'));
+    this.relationshipsTab.addEventListener('click', () => this.showTab('relationships'));
+    this.relationshipFilterInput.addEventListener('input', () => this.renderRelationships());
+    
+    this.confirmOkButton.addEventListener('click', () => this.closeConfirmation(true));
+    this.confirmCancelButton.addEventListener('click', () => this.closeConfirmation(false));
+    this.confirmInput.addEventListener('input', () => {
+      this.confirmOkButton.disabled = this.confirmInput.value.trim() !== this.confirmationText;
+    });
+    // Escape closes the dialog without confirming
+    this.confirmDialog.addEventListener('cancel', (e) => {
+      e.preventDefault();
+      this.closeConfirmation(false);
+    });
   }
   
   private loadRecordInfo(): void {
     chrome.storage.local.get(['currentRecord'], (result) => {
       if (result.currentRecord) {
-        const { entityName, recordId } = result.currentRecord;
+        const { entityName, recordId, orgUrl } = result.currentRecord;
         
-        console.log('Loaded record info from storage:', { entityName, recordId });
+        console.log('Loaded record info from storage:', { entityName, recordId, orgUrl });
         
         this.entityName = entityName;
         this.recordId = recordId;
+        this.orgUrl = orgUrl || '';
         
         // Update UI
         this.entityNameElement.textContent = `Entity: ${entityName}`;
@@ -87,10 +237,16 @@ class RecordInspectorController {
       }
       
       // Process fields
+      this.record = record;
+      this.relationships = null;
+      this.relatedCounts.clear();
+      this.countErrors.clear();
+      await this.loadAttributes();
       this.allFields = this.processFields(record);
       
       // Display fields
       this.displayFields(this.allFields);
+      await this.loadCompareConnections();
       
       this.showStatus(`Loaded ${this.allFields.length} fields`, 'success');
     } catch (error) {
@@ -103,157 +259,721 @@ class RecordInspectorController {
   }
   
   private async fetchRecordData(): Promise<any> {
-    return new Promise((resolve, reject) => {
-      // First try to use the active tab to fetch data
-      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-        if (tabs[0]?.id) {
-          chrome.tabs.sendMessage(
-            tabs[0].id,
-            { 
-              action: 'fetchRecordData',
-              entityName: this.entityName,
-              recordId: this.recordId
-            },
-            (response) => {
-              // If there's an error communicating with the tab
-              if (chrome.runtime.lastError) {
-                console.error('Tab communication error:', chrome.runtime.lastError);
-                // Fall back to direct API call
-                this.fetchRecordDataDirect()
-                  .then(resolve)
-                  .catch(reject);
-                return;
-              }
-              
-              if (response?.error) {
-                reject(new Error(response.error));
-              } else if (response?.record) {
-                resolve(response.record);
-              } else {
-                reject(new Error('Invalid response from content script'));
-              }
-            }
-          );
-        } else {
-          // No active tab, use direct method
-          this.fetchRecordDataDirect()
-            .then(resolve)
-            .catch(reject);
-        }
-      });
+    const orgUrl = await this.connect();
+    await this.showConnection(orgUrl);
+    
+    return dynamicsApi.retrieveRecord(this.entityName, this.recordId);
+  }
+  
+  // Lookups are read as _name_value, every other column under its logical name
+  private async loadAttributes(): Promise<void> {
+    const attributes = await metadataService.getAttributes(await this.getOrgUrl(), this.entityName);
+    
+    this.attributes.clear();
+    attributes.forEach(attribute => {
+      const key = isLookupAttribute(attribute) ? `_${attribute.logicalName}_value` : attribute.logicalName;
+      this.attributes.set(key, attribute);
     });
   }
   
-  // Direct API call as fallback
-  private async fetchRecordDataDirect(): Promise<any> {
+  // Point the API back at this record's organization, which comparing may have changed
+  private async connect(): Promise<string> {
+    const orgUrl = await this.getOrgUrl();
+    dynamicsApi.initialize(orgUrl, await connectTransport(orgUrl));
+    return orgUrl;
+  }
+  
+  private async showConnection(orgUrl: string): Promise<void> {
+    const connection = await connectionManager.findByOrgUrl(orgUrl);
+    
+    this.recordConnection.textContent = connection ? connection.name : orgUrl;
+    this.recordConnection.title = orgUrl;
+    this.recordConnection.style.backgroundColor = connection ? connection.color : '#666';
+    this.recordConnection.classList.remove('hidden');
+  }
+  
+  // Records can be compared with one from any connection, this record's organization first
+  private async loadCompareConnections(): Promise<void> {
+    const orgUrl = await this.getOrgUrl();
+    const connections = await connectionManager.getConnections();
+    
+    this.compareConnectionSelect.innerHTML = '';
+    if (!connections.some(connection => connection.orgUrl === orgUrl)) {
+      this.compareConnectionSelect.add(new Option(orgUrl, orgUrl));
+    }
+    connections.forEach(connection => {
+      this.compareConnectionSelect.add(new Option(`${connection.name} (${connection.environmentType})`, connection.orgUrl));
+    });
+    this.compareConnectionSelect.value = orgUrl;
+  }
+  
+  /**
+   * Load another record of the same table, from the selected organization,
+   * and list both records' values side by side
+   */
+  private async compareRecords(): Promise<void> {
+    const input = this.compareRecordIdInput.value.trim();
+    const compareId = input.match(GUID_PATTERN)?.[0];
+    
+    if (!this.record || !compareId) {
+      this.showStatus('Enter the ID or URL of a record to compare with', 'error');
+      return;
+    }
+    if (this.editing) {
+      this.showStatus('Save or cancel your changes before comparing', 'error');
+      return;
+    }
+    
+    // A pasted record URL brings its organization along
+    let compareOrgUrl = this.compareConnectionSelect.value;
+    try {
+      const pasted = await connectionManager.findByOrgUrl(getOrgUrl(input));
+      if (pasted) {
+        compareOrgUrl = pasted.orgUrl;
+        this.compareConnectionSelect.value = compareOrgUrl;
+      }
+    } catch (e) {
+      // Just an ID
+    }
+    
+    this.compareButton.disabled = true;
+    try {
+      this.showStatus('Loading record to compare...', 'normal');
+      
+      dynamicsApi.initialize(compareOrgUrl, await connectTransport(compareOrgUrl));
+      this.compareRecord = await dynamicsApi.retrieveRecord(this.entityName, compareId);
+      
+      this.valueHeader.textContent = await this.describeRecord(await this.getOrgUrl(), this.recordId);
+      this.compareValueHeader.textContent = await this.describeRecord(compareOrgUrl, compareId);
+      this.compareValueHeader.classList.remove('hidden');
+      this.onlyDifferencesOption.classList.remove('hidden');
+      this.exitCompareButton.classList.remove('hidden');
+      
+      this.allFields = this.processFields(this.record, this.compareRecord);
+      this.filterFields();
+      
+      const differences = this.allFields.filter(field => field.different).length;
+      this.showStatus(`${differences} of ${this.allFields.length} fields differ`, 'success');
+    } catch (error) {
+      this.showStatus(`Error: ${error instanceof Error ? error.message : 'could not load the record'}`, 'error');
+    } finally {
+      this.compareButton.disabled = false;
+    }
+  }
+  
+  private exitCompare(): void {
+    this.compareRecord = null;
+    
+    this.valueHeader.textContent = 'Value';
+    this.compareValueHeader.classList.add('hidden');
+    this.onlyDifferencesOption.classList.add('hidden');
+    this.exitCompareButton.classList.add('hidden');
+    
+    this.allFields = this.processFields(this.record);
+    this.filterFields();
+  }
+  
+  // Column header for a record's values, such as "UAT 1a2b3c4d"
+  private async describeRecord(orgUrl: string, recordId: string): Promise<string> {
+    const connection = await connectionManager.findByOrgUrl(orgUrl);
+    return `${connection ? connection.name : new URL(orgUrl).hostname} ${recordId.replace(/[{}]/g, '').slice(0, 8)}`;
+  }
+  
+  /**
+   * Turn the fields that can be updated into inputs for their type
+   */
+  private async startEditing(): Promise<void> {
+    if (!this.record) {
+      return;
+    }
+    if (this.compareRecord) {
+      this.exitCompare();
+    }
+    
+    this.editButton.disabled = true;
     try {
-      // Get the organization URL from storage
-      const storage = await chrome.storage.local.get(['orgUrl']);
-      let orgUrl = storage.orgUrl || '';
+      this.showStatus('Loading column definitions...', 'normal');
+      await this.createEditors();
+      
+      this.editing = true;
+      this.editButton.classList.add('hidden');
+      this.saveButton.classList.remove('hidden');
+      this.cancelEditButton.classList.remove('hidden');
+      this.updateDirtyState();
+      this.filterFields();
       
-      if (!orgUrl) {
-        throw new Error('Organization URL not found. Please navigate to Dynamics CRM first.');
+      this.showStatus(`${this.editors.size} fields can be changed`, 'normal');
+    } catch (error) {
+      this.showStatus(`Error: ${error instanceof Error ? error.message : 'could not load the column definitions'}`, 'error');
+    } finally {
+      this.editButton.disabled = false;
+    }
+  }
+  
+  private stopEditing(): void {
+    this.editing = false;
+    this.editors.clear();
+    
+    this.editButton.classList.remove('hidden');
+    this.saveButton.classList.add('hidden');
+    this.cancelEditButton.classList.add('hidden');
+    this.filterFields();
+  }
+  
+  /**
+   * Create an input for each field that can be updated, showing the pending
+   * values given instead of the record's own
+   */
+  private async createEditors(pending: Record<string, any> = {}): Promise<void> {
+    const orgUrl = await this.connect();
+    const [optionSets, relationships] = await Promise.all([
+      metadataService.getOptionSets(orgUrl, this.entityName),
+      metadataService.getLookupRelationships(orgUrl, this.entityName)
+    ]);
+    
+    this.editors.clear();
+    for (const [key, attribute] of this.attributes) {
+      const { logicalName } = attribute;
+      const lookupTargets = relationships
+        .filter(relationship => relationship.referencingAttribute === logicalName)
+        .map(relationship => relationship.referencedEntity);
+      
+      if (
+        !FieldEditor.canEdit(attribute) ||
+        !(key in this.record) ||
+        (isLookupAttribute(attribute) && lookupTargets.length === 0)
+      ) {
+        continue;
       }
       
-      // Extract just the base URL (domain) from the stored URL
-      try {
-        const urlObj = new URL(orgUrl);
-        orgUrl = `${urlObj.protocol}//${urlObj.hostname}`;
-      } catch (e) {
-        console.error('Error parsing URL:', e);
+      const editor = new FieldEditor(attribute, this.record[key], {
+        options: optionSets.find(optionSet => optionSet.attribute === logicalName)?.options,
+        lookupTargets,
+        formatted: this.record[`${key}${FORMATTED_SUFFIX}`],
+        lookupTarget: this.record[`${key}${LOOKUP_TABLE_SUFFIX}`],
+        searchRecords: (entity, text) => dynamicsApi.searchRecords(entity, text),
+        onChange: () => this.updateDirtyState()
+      });
+      if (key in pending) {
+        editor.setValue(pending[key]);
       }
+      this.editors.set(key, editor);
+    }
+  }
+  
+  private getDirtyEditors(): [string, FieldEditor][] {
+    return Array.from(this.editors).filter(([, editor]) => editor.isDirty());
+  }
+  
+  private updateDirtyState(): void {
+    const dirtyCount = this.getDirtyEditors().length;
+    this.saveButton.textContent = dirtyCount > 0 ? `Save Changes (${dirtyCount})` : 'Save Changes';
+    this.saveButton.disabled = dirtyCount === 0;
+    
+    this.editors.forEach(editor => {
+      editor.element.closest('tr')?.classList.toggle('dirty-field', editor.isDirty());
+    });
+  }
+  
+  /**
+   * Confirm the changed fields and PATCH only those. A record someone else
+   * changed since it was loaded is reloaded, keeping the user's changes to
+   * review and save again.
+   */
+  private async saveChanges(): Promise<void> {
+    const dirty = this.getDirtyEditors();
+    const changes: Record<string, any> = {};
+    
+    try {
+      dirty.forEach(([key, editor]) => {
+        changes[key] = editor.getValue();
+      });
+    } catch (error) {
+      this.showStatus(error instanceof Error ? error.message : 'A value is not valid', 'error');
+      return;
+    }
+    
+    if (dirty.length === 0 || !(await this.confirmSave(dirty))) {
+      return;
+    }
+    
+    this.saveButton.disabled = true;
+    try {
+      this.showStatus('Saving changes...', 'normal');
       
-      this.showStatus('Fetching record data directly...', 'normal');
+      const connection = await connectionManager.findByOrgUrl(await this.connect());
+      await dynamicsApi.updateRecord(this.entityName, this.recordId, changes, this.record['@odata.etag'], {
+        confirmProductionChange: summary => this.confirmProductionChange(connection!, summary)
+      });
+      
+      await this.reloadRecord();
+      this.stopEditing();
+      this.showStatus(`Saved ${dirty.length} field(s)`, 'success');
+    } catch (error) {
+      if (error instanceof WebApiError && error.status === 412) {
+        await this.reloadRecord(changes);
+        this.showStatus(
+          'This record was changed by someone else since it was loaded. It has been reloaded with your changes kept; review them and save again.',
+          'error'
+        );
+      } else {
+        this.showStatus(`Error: ${error instanceof Error ? error.message : 'the changes could not be saved'}`, 'error');
+      }
+    } finally {
+      this.updateDirtyState();
+    }
+  }
+  
+  // Load the latest version of the record, with its new etag
+  private async reloadRecord(pending?: Record<string, any>): Promise<void> {
+    this.record = await this.fetchRecordData();
+    this.allFields = this.processFields(this.record);
+    
+    if (this.editing) {
+      await this.createEditors(pending);
+    }
+    this.filterFields();
+  }
+  
+  // List each changed field's current and new value before saving
+  private confirmSave(dirty: [string, FieldEditor][]): Promise<boolean> {
+    this.confirmTitle.textContent = `Save ${dirty.length} change(s) to this ${this.entityName}?`;
+    this.confirmSummary.textContent = 'Only these fields are sent:';
+    this.confirmChangesBody.innerHTML = '';
+    
+    dirty.forEach(([key, editor]) => {
+      const tr = document.createElement('tr');
+      [
+        this.getDisplayName(key),
+        this.record[`${key}${FORMATTED_SUFFIX}`] ?? this.formatValue(this.record[key]),
+        editor.describeValue()
+      ].forEach(text => {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
+      });
+      this.confirmChangesBody.appendChild(tr);
+    });
+    
+    this.confirmChanges.classList.remove('hidden');
+    this.confirmDialog.classList.remove('production-confirm');
+    
+    return this.openConfirmation('Save');
+  }
+  
+  /**
+   * The second confirmation for changes to a production environment,
+   * given by typing the connection's name
+   */
+  private confirmProductionChange(connection: Connection, summary: string): Promise<boolean> {
+    this.confirmTitle.textContent = `Change production environment ${connection.name}?`;
+    this.confirmSummary.textContent = `${summary} will run against ${connection.orgUrl}, which is marked as production.`;
+    this.confirmChanges.classList.add('hidden');
+    this.confirmTypedLabel.textContent = `Type ${connection.name} to confirm.`;
+    this.confirmDialog.classList.add('production-confirm');
+    
+    return this.openConfirmation('Save in production', connection.name);
+  }
+  
+  // Show the prepared dialog; with typedText, the user must type it to confirm
+  private openConfirmation(okLabel: string, typedText?: string): Promise<boolean> {
+    const typed = typedText !== undefined;
+    
+    this.confirmationText = typedText || '';
+    this.confirmTyped.classList.toggle('hidden', !typed);
+    this.confirmInput.value = '';
+    this.confirmOkButton.textContent = okLabel;
+    this.confirmOkButton.disabled = typed;
+    
+    this.confirmDialog.showModal();
+    (typed ? this.confirmInput : this.confirmCancelButton).focus();
+    
+    return new Promise(resolve => {
+      this.resolveConfirmation = resolve;
+    });
+  }
+  
+  private closeConfirmation(confirmed: boolean): void {
+    this.confirmDialog.close();
+    this.resolveConfirmation?.(confirmed);
+    this.resolveConfirmation = null;
+  }
+  
+  private showTab(tab: 'fields' | 'relationships'): void {
+    const relationships = tab === 'relationships';
+    this.fieldsTab.classList.toggle('active', !relationships);
+    this.relationshipsTab.classList.toggle('active', relationships);
+    this.fieldsPanel.classList.toggle('hidden', relationships);
+    this.relationshipsPanel.classList.toggle('hidden', !relationships);
+    
+    if (relationships && !this.relationships && this.record) {
+      this.loadRelationships();
+    }
+  }
+  
+  /**
+   * List the table's relationships, then count the related records of each
+   */
+  private async loadRelationships(): Promise<void> {
+    const recordId = this.recordId;
+    
+    try {
+      this.showStatus('Loading relationships...', 'normal');
       
-      // Convert entity name to plural form for Web API
-      const pluralEntityName = this.getPluralEntityName(this.entityName);
+      const orgUrl = await this.connect();
+      const relationships = await metadataService.getRelationships(orgUrl, this.entityName);
+      this.relationships = [...relationships].sort((a, b) =>
+        a.type.localeCompare(b.type) || a.relatedEntity.localeCompare(b.relatedEntity) || a.schemaName.localeCompare(b.schemaName));
       
-      // Format the record ID properly - remove curly braces if present
-      const formattedRecordId = this.recordId.replace(/[{}]/g, '');
+      this.relationships
+        .filter(relationship => relationship.type === 'ManyToOne')
+        .forEach(relationship => {
+          this.relatedCounts.set(relationship.schemaName, this.getParentRecord(relationship) ? '1' : '0');
+        });
+      this.renderRelationships();
       
-      // Use the Web API directly with credentials - without $select=*
-      const url = `${orgUrl}/api/data/v9.2/${pluralEntityName}(${formattedRecordId})`;
-      console.log('API URL:', url);
+      this.showStatus(`Counting records of ${this.relationships.length} relationships...`, 'normal');
+      await this.countRelatedRecords(recordId);
+      if (recordId === this.recordId) {
+        this.showStatus(`Loaded ${this.relationships.length} relationships`, 'success');
+      }
+    } catch (error) {
+      this.showStatus(`Error: ${error instanceof Error ? error.message : 'could not load the relationships'}`, 'error');
+    }
+  }
+  
+  // A few at a time; stops once another record is opened
+  private async countRelatedRecords(recordId: string): Promise<void> {
+    const queue = (this.relationships || []).filter(relationship => relationship.type !== 'ManyToOne');
+    
+    const worker = async (): Promise<void> => {
+      while (queue.length > 0 && recordId === this.recordId) {
+        const relationship = queue.shift()!;
+        let count: string;
+        try {
+          const related = await dynamicsApi.retrieveRelated(this.entityName, recordId, relationship, 1);
+          count = related.totalCountExceeded ? `${related.totalCount}+` : String(related.totalCount);
+        } catch (error) {
+          count = '?';
+          if (recordId === this.recordId) {
+            this.countErrors.set(
+              relationship.schemaName,
+              `Could not count the records: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+        }
+        
+        if (recordId === this.recordId) {
+          this.relatedCounts.set(relationship.schemaName, count);
+          const cell = this.countCells.get(relationship.schemaName);
+          if (cell) {
+            this.showCount(cell, relationship.schemaName);
+          }
+        }
+      }
+    };
+    
+    await Promise.all(Array.from({ length: COUNT_CONCURRENCY }, worker));
+  }
+  
+  private showCount(cell: HTMLElement, schemaName: string): void {
+    const error = this.countErrors.get(schemaName);
+    cell.textContent = this.relatedCounts.get(schemaName) ?? '...';
+    cell.title = error || '';
+    cell.classList.toggle('error', error !== undefined);
+  }
+  
+  private renderRelationships(): void {
+    const filterText = this.relationshipFilterInput.value.toLowerCase();
+    const relationships = (this.relationships || []).filter(relationship =>
+      [relationship.schemaName, relationship.relatedEntity, relationship.lookupAttribute || '']
+        .some(text => text.toLowerCase().includes(filterText)));
+    
+    this.relationshipsBody.innerHTML = '';
+    this.countCells.clear();
+    
+    relationships.forEach(relationship => {
+      const tr = document.createElement('tr');
       
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'OData-MaxVersion': '4.0',
-          'OData-Version': '4.0'
-        },
-        credentials: 'include' // This is key - include credentials
+      [
+        relationship.schemaName,
+        RELATIONSHIP_TYPE_LABELS[relationship.type],
+        relationship.relatedEntity,
+        relationship.type === 'ManyToMany' ? relationship.intersectEntity! : relationship.lookupAttribute!
+      ].forEach(text => {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
       });
       
-      if (!response.ok) {
-        throw new Error(`HTTP error ${response.status}: ${await response.text()}`);
+      const countCell = document.createElement('td');
+      this.showCount(countCell, relationship.schemaName);
+      this.countCells.set(relationship.schemaName, countCell);
+      tr.appendChild(countCell);
+      
+      tr.appendChild(this.createRelationshipActions(relationship, tr));
+      this.relationshipsBody.appendChild(tr);
+    });
+  }
+  
+  // A parent record is inspected straight away; related collections are listed below the row first
+  private createRelationshipActions(relationship: RelationshipMetadata, tr: HTMLTableRowElement): HTMLTableCellElement {
+    const td = document.createElement('td');
+    const parent = relationship.type === 'ManyToOne' ? this.getParentRecord(relationship) : null;
+    
+    if (relationship.type !== 'ManyToOne') {
+      const showButton = document.createElement('button');
+      showButton.className = 'secondary-btn';
+      showButton.textContent = 'Show';
+      showButton.addEventListener('click', () => this.toggleRelatedRecords(relationship, tr, showButton));
+      td.appendChild(showButton);
+    } else if (parent) {
+      const inspectButton = document.createElement('button');
+      inspectButton.className = 'secondary-btn';
+      inspectButton.textContent = 'Inspect';
+      inspectButton.addEventListener('click', () => this.inspectRecord(parent));
+      td.appendChild(inspectButton);
+    }
+    
+    if (relationship.type !== 'ManyToOne' || parent) {
+      const queryButton = document.createElement('button');
+      queryButton.className = 'secondary-btn';
+      queryButton.textContent = 'Query';
+      queryButton.title = 'Open the related records in the query tool';
+      queryButton.addEventListener('click', () => this.openInQueryTool(relationship));
+      td.appendChild(queryButton);
+    }
+    
+    return td;
+  }
+  
+  // The record a many-to-one relationship's lookup points to; a polymorphic
+  // lookup has a relationship per table, of which only one is set
+  private getParentRecord(relationship: RelationshipMetadata): RecordReference | null {
+    const key = `_${relationship.lookupAttribute}_value`;
+    const id = this.record?.[key];
+    const target = this.record?.[`${key}${LOOKUP_TABLE_SUFFIX}`];
+    
+    if (!id || (target && target !== relationship.relatedEntity)) {
+      return null;
+    }
+    return { entity: relationship.relatedEntity, id, name: this.record[`${key}${FORMATTED_SUFFIX}`] };
+  }
+  
+  private async toggleRelatedRecords(
+    relationship: RelationshipMetadata,
+    tr: HTMLTableRowElement,
+    button: HTMLButtonElement
+  ): Promise<void> {
+    const next = tr.nextElementSibling;
+    if (next?.classList.contains('related-records')) {
+      next.remove();
+      button.textContent = 'Show';
+      return;
+    }
+    
+    button.disabled = true;
+    try {
+      await this.connect();
+      const related = await dynamicsApi.retrieveRelated(this.entityName, this.recordId, relationship, RELATED_SAMPLE_SIZE);
+      
+      const row = document.createElement('tr');
+      row.className = 'related-records';
+      const td = document.createElement('td');
+      td.colSpan = 6;
+      
+      if (related.records.length === 0) {
+        td.textContent = 'No related records';
+      } else {
+        const list = document.createElement('ul');
+        related.records.forEach(record => {
+          const item = document.createElement('li');
+          const link = document.createElement('a');
+          link.href = '#';
+          link.textContent = record.name || record.id;
+          link.addEventListener('click', (e) => {
+            e.preventDefault();
+            this.inspectRecord(record);
+          });
+          item.appendChild(link);
+          list.appendChild(item);
+        });
+        td.appendChild(list);
+        
+        if (related.totalCount > related.records.length) {
+          const more = document.createElement('span');
+          more.textContent = `The first ${related.records.length} of ${related.totalCount}${related.totalCountExceeded ? '+' : ''}; use Query to see them all.`;
+          td.appendChild(more);
+        }
       }
       
-      return await response.json();
+      row.appendChild(td);
+      tr.insertAdjacentElement('afterend', row);
+      button.textContent = 'Hide';
     } catch (error) {
-      console.error('Direct fetch error:', error);
-      throw error;
-    }
-  }
-  
-  // Helper method to convert entity name to plural form
-  private getPluralEntityName(entityName: string): string {
-    // Common Dynamics entity pluralization rules
-    const commonEntities: Record<string, string> = {
-      'account': 'accounts',
-      'contact': 'contacts',
-      'lead': 'leads',
-      'opportunity': 'opportunities',
-      'systemuser': 'systemusers',
-      'team': 'teams',
-      'businessunit': 'businessunits',
-      'incident': 'incidents',
-      'annotation': 'annotations',
-      'email': 'emails',
-      'task': 'tasks',
-      'appointment': 'appointments',
-      'activitypointer': 'activitypointers',
-      'phonecall': 'phonecalls',
-      'letter': 'letters',
-      'fax': 'faxes',
-      'recurringappointmentmaster': 'recurringappointmentmasters',
-      'socialactivity': 'socialactivities',
-      'workflow': 'workflows',
-      'processsession': 'processsessions',
-      'queue': 'queues',
-      'queueitem': 'queueitems'
-    };
+      this.showStatus(`Error: ${error instanceof Error ? error.message : 'could not load the related records'}`, 'error');
+    } finally {
+      button.disabled = false;
+    }
+  }
+  
+  /**
+   * Run a SELECT of the related records in the query tool, against this record's organization
+   */
+  private async openInQueryTool(relationship: RelationshipMetadata): Promise<void> {
+    try {
+      const orgUrl = await this.getOrgUrl();
+      const query = await this.buildRelatedQuery(orgUrl, relationship);
+      
+      await chrome.storage.local.set({ pendingQuery: { query, executing: true, orgUrl } });
+      chrome.tabs.create({ url: 'query-tool.html' });
+    } catch (error) {
+      this.showStatus(`Error: ${error instanceof Error ? error.message : 'could not open the query tool'}`, 'error');
+    }
+  }
+  
+  private async buildRelatedQuery(orgUrl: string, relationship: RelationshipMetadata): Promise<string> {
+    const recordId = this.recordId.replace(/[{}]/g, '');
+    const { relatedEntity } = relationship;
     
-    // Check if it's a common entity
-    if (commonEntities[entityName.toLowerCase()]) {
-      return commonEntities[entityName.toLowerCase()];
+    if (relationship.type === 'OneToMany') {
+      return `SELECT * FROM ${relatedEntity} WHERE _${relationship.lookupAttribute}_value = '${recordId}'`;
     }
     
-    // Basic pluralization rule (add 's')
-    return entityName + 's';
+    const { primaryIdAttribute } = await metadataService.getEntity(orgUrl, relatedEntity);
+    if (relationship.type === 'ManyToOne') {
+      return `SELECT * FROM ${relatedEntity} WHERE ${primaryIdAttribute} = '${this.getParentRecord(relationship)?.id}'`;
+    }
+    
+    return `SELECT * FROM ${relatedEntity} r ` +
+      `JOIN ${relationship.intersectEntity} i ON i.${relationship.relatedIntersectAttribute} = r.${primaryIdAttribute} ` +
+      `WHERE i.${relationship.intersectAttribute} = '${recordId}'`;
+  }
+  
+  /**
+   * Open a related record in place, remembering this one in the breadcrumbs
+   */
+  private async inspectRecord(reference: RecordReference): Promise<void> {
+    if (this.editing) {
+      this.showStatus('Save or cancel your changes before opening another record', 'error');
+      return;
+    }
+    
+    this.trail.push({
+      entityName: this.entityName,
+      recordId: this.recordId,
+      label: await this.describeCurrentRecord()
+    });
+    this.openRecord(reference.entity, reference.id);
+  }
+  
+  private goBack(index: number): void {
+    if (this.editing) {
+      this.showStatus('Save or cancel your changes before opening another record', 'error');
+      return;
+    }
+    
+    const item = this.trail[index];
+    this.trail = this.trail.slice(0, index);
+    this.openRecord(item.entityName, item.recordId);
+  }
+  
+  private openRecord(entityName: string, recordId: string): void {
+    if (this.compareRecord) {
+      this.exitCompare();
+    }
+    
+    this.entityName = entityName;
+    this.recordId = recordId;
+    this.entityNameElement.textContent = `Entity: ${entityName}`;
+    this.recordIdElement.textContent = `ID: ${recordId}`;
+    
+    this.renderBreadcrumbs();
+    this.showTab('fields');
+    this.loadRecordData();
+  }
+  
+  private renderBreadcrumbs(): void {
+    this.breadcrumbs.innerHTML = '';
+    this.breadcrumbs.classList.toggle('hidden', this.trail.length === 0);
+    
+    this.trail.forEach((item, index) => {
+      const link = document.createElement('a');
+      link.href = '#';
+      link.textContent = item.label;
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        this.goBack(index);
+      });
+      this.breadcrumbs.append(link, ' › ');
+    });
+    this.breadcrumbs.append(this.entityName);
+  }
+  
+  // Such as "account: Contoso", or the start of the ID for tables without a name column
+  private async describeCurrentRecord(): Promise<string> {
+    const { primaryNameAttribute } = await metadataService.getEntity(await this.getOrgUrl(), this.entityName);
+    const name = primaryNameAttribute && this.record?.[primaryNameAttribute];
+    return `${this.entityName}: ${name || this.recordId.replace(/[{}]/g, '').slice(0, 8)}`;
+  }
+  
+  // Records opened before connections were tracked fall back to the active one
+  private async getOrgUrl(): Promise<string> {
+    if (this.orgUrl) {
+      return this.orgUrl;
+    }
+    
+    const connection = await connectionManager.getActive();
+    if (!connection) {
+      throw new Error('Organization URL not found. Please navigate to Dynamics CRM first.');
+    }
+    
+    return connection.orgUrl;
   }
   
-  private processFields(record: any): FieldInfo[] {
+  // With a record to compare, every field of either record is listed
+  private processFields(record: any, compareRecord?: any): FieldInfo[] {
     const fields: FieldInfo[] = [];
+    const keys = new Set([...Object.keys(record), ...Object.keys(compareRecord || {})]);
     
-    for (const key in record) {
-      // Skip internal properties
-      if (key.startsWith('@')) continue;
+    for (const key of keys) {
+      // Skip the etag and annotations such as formatted values
+      if (key.includes('@')) continue;
       
       const value = record[key];
-      
-      fields.push({
-        displayName: this.formatDisplayName(key),
+      const attribute = this.attributes.get(key);
+      const field: FieldInfo = {
+        displayName: this.getDisplayName(key),
         schemaName: key,
         value: value,
-        type: this.getFieldType(value)
-      });
+        type: attribute
+          ? this.describeType(attribute, record[`${key}${LOOKUP_TABLE_SUFFIX}`])
+          : this.getFieldType(value ?? compareRecord?.[key]),
+        attribute
+      };
+      
+      if (compareRecord) {
+        field.compareValue = compareRecord[key];
+        field.different = JSON.stringify(value ?? null) !== JSON.stringify(field.compareValue ?? null);
+      }
+      
+      fields.push(field);
     }
     
     // Sort by display name
     return fields.sort((a, b) => a.displayName.localeCompare(b.displayName));
   }
   
+  // The column's label, or one made from its name when it has none
+  private getDisplayName(key: string): string {
+    return this.attributes.get(key)?.displayName || this.formatDisplayName(key);
+  }
+  
+  // Lookups also name the table the value points to
+  private describeType(attribute: AttributeMetadata, lookupTarget?: string): string {
+    return lookupTarget ? `${attribute.attributeType} (${lookupTarget})` : attribute.attributeType;
+  }
+  
   private formatDisplayName(schemaName: string): string {
     // Convert camelCase or snake_case to Title Case with spaces
     return schemaName
@@ -276,11 +996,12 @@ class RecordInspectorController {
   
   private displayFields(fields: FieldInfo[]): void {
     this.fieldsBody.innerHTML = '';
+    this.visibleFields = fields;
     
     if (fields.length === 0) {
       const tr = document.createElement('tr');
       const td = document.createElement('td');
-      td.colSpan = 4;
+      td.colSpan = this.compareRecord ? 8 : 7;
       td.textContent = 'No fields found';
       td.style.textAlign = 'center';
       td.style.padding = '20px';
@@ -302,27 +1023,71 @@ class RecordInspectorController {
       tdSchema.textContent = field.schemaName;
       tr.appendChild(tdSchema);
       
-      // Value
-      const tdValue = document.createElement('td');
-      if (field.value === null || field.value === undefined) {
-        tdValue.textContent = 'null';
-        tdValue.classList.add('null-value');
-      } else if (typeof field.value === 'object') {
-        tdValue.textContent = JSON.stringify(field.value);
+      // Value, an input while editing, and the other record's value when comparing
+      const editor = this.editing ? this.editors.get(field.schemaName) : undefined;
+      if (editor) {
+        const td = document.createElement('td');
+        td.appendChild(editor.element);
+        tr.appendChild(td);
+        tr.classList.toggle('dirty-field', editor.isDirty());
       } else {
-        tdValue.textContent = String(field.value);
+        tr.appendChild(this.createValueCell(field.value, field.different));
+      }
+      if (this.compareRecord) {
+        tr.appendChild(this.createValueCell(field.compareValue, field.different));
       }
-      tr.appendChild(tdValue);
       
-      // Type
-      const tdType = document.createElement('td');
-      tdType.textContent = field.type;
-      tr.appendChild(tdType);
+      // Type and what the column's definition allows
+      this.describeAttribute(field).forEach(text => {
+        const td = document.createElement('td');
+        td.textContent = text;
+        tr.appendChild(td);
+      });
       
       this.fieldsBody.appendChild(tr);
     });
   }
   
+  // Type, requirement level, whether the column is custom and whether it can be updated
+  private describeAttribute(field: FieldInfo): string[] {
+    const { attribute } = field;
+    if (!attribute) {
+      return [field.type, '', '', ''];
+    }
+    return [
+      field.type,
+      REQUIRED_LEVEL_LABELS[attribute.requiredLevel] || attribute.requiredLevel,
+      attribute.isCustom ? 'Yes' : 'No',
+      attribute.validForUpdate ? 'Yes' : 'No'
+    ];
+  }
+  
+  // Columns the platform maintains: not custom and never set by users.
+  // Properties without a column definition count as system ones too.
+  private isSystemField(field: FieldInfo): boolean {
+    const { attribute } = field;
+    return !attribute || (!attribute.isCustom && !attribute.validForCreate && !attribute.validForUpdate);
+  }
+  
+  private createValueCell(value: any, different?: boolean): HTMLTableCellElement {
+    const td = document.createElement('td');
+    td.textContent = this.formatValue(value);
+    if (value === null || value === undefined) {
+      td.classList.add('null-value');
+    }
+    if (different) {
+      td.classList.add('diff-changed-cell');
+    }
+    return td;
+  }
+  
+  private formatValue(value: any): string {
+    if (value === null || value === undefined) {
+      return 'null';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  
   private filterFields(): void {
     const filterText = this.fieldFilterInput.value.toLowerCase();
     const showNull = this.showNullCheckbox.checked;
@@ -336,17 +1101,19 @@ class RecordInspectorController {
       
       if (!matchesFilter) return false;
       
-      // Filter null values
-      if (!showNull && (field.value === null || field.value === undefined)) {
+      // Filter null values; when comparing, only fields null in both records
+      const isNull = field.value === null || field.value === undefined;
+      const compareIsNull = field.compareValue === null || field.compareValue === undefined;
+      if (!showNull && isNull && (!this.compareRecord || compareIsNull)) {
         return false;
       }
       
-      // Filter system fields (starting with underscore or containing certain patterns)
-      if (!showSystem && (
-        field.schemaName.startsWith('_') || 
-        field.schemaName.endsWith('_base') ||
-        field.schemaName.includes('versionnumber')
-      )) {
+      if (this.compareRecord && this.onlyDifferencesCheckbox.checked && !field.different) {
+        return false;
+      }
+      
+      // Filter system fields by their column definitions
+      if (!showSystem && this.isSystemField(field)) {
         return false;
       }
       
@@ -357,23 +1124,20 @@ class RecordInspectorController {
   }
   
   private exportFields(): void {
-    // Get visible fields
-    const visibleFields = Array.from(this.fieldsBody.querySelectorAll('tr')).map(row => {
-      const cells = row.querySelectorAll('td');
-      return {
-        displayName: cells[0].textContent || '',
-        schemaName: cells[1].textContent || '',
-        value: cells[2].textContent || '',
-        type: cells[3].textContent || ''
-      };
-    });
+    const comparing = !!this.compareRecord;
+    const escape = (value: any) => this.formatValue(value).replace(/"/g, '""');
     
-    // Create CSV content
-    let csv = 'Display Name,Schema Name,Value,Type\n';
+    // Create CSV content from the visible fields
+    let csv = comparing
+      ? 'Display Name,Schema Name,Value,Compared Value,Type,Required,Custom,Updatable\n'
+      : 'Display Name,Schema Name,Value,Type,Required,Custom,Updatable\n';
     
-    visibleFields.forEach(field => {
-      const escapedValue = field.value.replace(/"/g, '""');
-      csv += `"${field.displayName}","${field.schemaName}","${escapedValue}","${field.type}"\n`;
+    this.visibleFields.forEach(field => {
+      const values = comparing
+        ? `"${escape(field.value)}","${escape(field.compareValue)}"`
+        : `"${escape(field.value)}"`;
+      const definition = this.describeAttribute(field).map(text => `"${text}"`).join(',');
+      csv += `"${field.displayName}","${field.schemaName}",${values},${definition}\n`;
     });
     
     // Create download link
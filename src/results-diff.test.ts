@@ -0,0 +1,63 @@
+import resultsDiffer from './results-diff';
+import { FormattedResult, ResultCell } from './results-handler';
+
+function resultOf(columns: string[], rows: ResultCell[][]): FormattedResult {
+  return { columns, rows, totalCount: rows.length, orgUrl: 'https://contoso.crm.dynamics.com', executionTime: 0 };
+}
+
+function lookup(value: string, formatted: string, lookupLogicalName = 'systemuser'): ResultCell {
+  return { value, formatted, lookupLogicalName };
+}
+
+describe('ResultsDiffer', () => {
+  it('matches rows on the key column and counts added, removed and changed rows', () => {
+    const left = resultOf(['code', 'name'], [
+      [{ value: 'EUR' }, { value: 'Euro' }],
+      [{ value: 'GBP' }, { value: 'Pound' }]
+    ]);
+    const right = resultOf(['code', 'name'], [
+      [{ value: 'EUR' }, { value: 'Euro' }],
+      [{ value: 'GBP' }, { value: 'Pound Sterling' }],
+      [{ value: 'USD' }, { value: 'US Dollar' }]
+    ]);
+
+    const diff = resultsDiffer.diff(left, right, 'code');
+
+    expect(diff.counts).toEqual({ added: 1, removed: 0, changed: 1, unchanged: 1 });
+    expect(diff.rows.find(row => row.key === 'gbp')?.changedColumns).toEqual(['name']);
+  });
+
+  it('compares lookups by the record they point to rather than its ID', () => {
+    const left = resultOf(['code', 'ownerid'], [[{ value: 'EUR' }, lookup('1111', 'Ada Lovelace')]]);
+    const right = resultOf(['code', 'ownerid'], [[{ value: 'EUR' }, lookup('2222', 'Ada Lovelace')]]);
+
+    expect(resultsDiffer.diff(left, right, 'code').counts.unchanged).toBe(1);
+  });
+
+  it('reports a lookup to another record or table as changed', () => {
+    const left = resultOf(['code', 'ownerid'], [
+      [{ value: 'EUR' }, lookup('1111', 'Ada Lovelace')],
+      [{ value: 'GBP' }, lookup('3333', 'Sales', 'team')]
+    ]);
+    const right = resultOf(['code', 'ownerid'], [
+      [{ value: 'EUR' }, lookup('1111', 'Grace Hopper')],
+      [{ value: 'GBP' }, lookup('3333', 'Sales', 'systemuser')]
+    ]);
+
+    expect(resultsDiffer.diff(left, right, 'code').counts.changed).toBe(2);
+  });
+
+  it('treats a missing column as null', () => {
+    const left = resultOf(['code', 'description'], [[{ value: 'EUR' }, { value: null }]]);
+    const right = resultOf(['code'], [[{ value: 'EUR' }]]);
+
+    expect(resultsDiffer.diff(left, right, 'code').counts.unchanged).toBe(1);
+  });
+
+  it('rejects a key column that is not unique', () => {
+    const left = resultOf(['code'], [[{ value: 'EUR' }], [{ value: 'eur' }]]);
+
+    expect(() => resultsDiffer.diff(left, resultOf(['code'], []), 'code'))
+      .toThrow('code is not unique in the first result');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Results Diff for Dynamics CRM Toolkit
+ *
+ * Aligns the results of one query run against two environments by a key
+ * column and finds the rows and cells that differ
+ */
+
+import { FormattedResult, ResultCell } from './results-handler';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface DiffRow {
+  key: string;
+  // Removed rows are only in the left result, added rows only in the right
+  status: DiffStatus;
+  // Cells in the order of ResultDiff.columns, for each side the row is in
+  left?: ResultCell[];
+  right?: ResultCell[];
+  changedColumns: string[];
+}
+
+export interface ResultDiff {
+  // Columns of either result, left ones first
+  columns: string[];
+  keyColumn: string;
+  rows: DiffRow[];
+  counts: Record<DiffStatus, number>;
+}
+
+export class ResultsDiffer {
+  /**
+   * Compare two results row by row, matching rows on the key column.
+   * Lookups compare by the table and name of the record they point to, since
+   * the same record has a different ID in each environment.
+   * Throws when the key column is missing or not unique.
+   */
+  diff(left: FormattedResult, right: FormattedResult, keyColumn: string): ResultDiff {
+    const columns = [...left.columns, ...right.columns.filter(column => !left.columns.includes(column))];
+    const leftRows = this.indexRows(left, columns, keyColumn, 'first');
+    const rightRows = this.indexRows(right, columns, keyColumn, 'second');
+
+    const rows: DiffRow[] = [];
+    const counts: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+    leftRows.forEach((leftCells, key) => {
+      const rightCells = rightRows.get(key);
+      const changedColumns = rightCells
+        ? columns.filter((_, index) => !this.isSameCell(leftCells[index], rightCells[index]))
+        : [];
+      const status: DiffStatus = !rightCells ? 'removed' : changedColumns.length > 0 ? 'changed' : 'unchanged';
+
+      rows.push({ key, status, left: leftCells, right: rightCells, changedColumns });
+      counts[status]++;
+    });
+
+    rightRows.forEach((rightCells, key) => {
+      if (!leftRows.has(key)) {
+        rows.push({ key, status: 'added', right: rightCells, changedColumns: [] });
+        counts.added++;
+      }
+    });
+
+    return { columns, keyColumn, rows, counts };
+  }
+
+  // Rows by key, with cells rearranged to the combined columns
+  private indexRows(
+    result: FormattedResult,
+    columns: string[],
+    keyColumn: string,
+    side: string
+  ): Map<string, ResultCell[]> {
+    const keyIndex = result.columns.indexOf(keyColumn);
+    if (keyIndex === -1 && result.rows.length > 0) {
+      throw new Error(`The ${side} result has no ${keyColumn} column to match rows on; add it to the SELECT list`);
+    }
+
+    const rows = new Map<string, ResultCell[]>();
+    result.rows.forEach(row => {
+      const key = this.toKey(row[keyIndex].value);
+      if (rows.has(key)) {
+        throw new Error(`${keyColumn} is not unique in the ${side} result (${key} appears more than once); choose another key column`);
+      }
+
+      rows.set(key, columns.map(column => {
+        const index = result.columns.indexOf(column);
+        return index === -1 ? { value: null } : row[index];
+      }));
+    });
+
+    return rows;
+  }
+
+  // Keys compare case-insensitively, since GUIDs are not always written the same way
+  private toKey(value: any): string {
+    return value === null || value === undefined ? '' : String(value).toLowerCase();
+  }
+
+  // FetchXML leaves out null columns, so a missing value equals null
+  private isSameCell(a: ResultCell, b: ResultCell): boolean {
+    return JSON.stringify(this.compareValue(a)) === JSON.stringify(this.compareValue(b));
+  }
+
+  private compareValue(cell: ResultCell): any {
+    if (cell.lookupLogicalName !== undefined && cell.formatted !== undefined) {
+      return { table: cell.lookupLogicalName, name: cell.formatted };
+    }
+    return cell.value ?? null;
+  }
+}
+
+export default new ResultsDiffer();
@@ -6,10 +6,24 @@
 
 import { QueryResult } from './dynamics-api';
 
+// Annotations the Web API returns with Prefer: odata.include-annotations="*"
+const FORMATTED_VALUE_ANNOTATION = '@OData.Community.Display.V1.FormattedValue';
+const LOOKUP_LOGICAL_NAME_ANNOTATION = '@Microsoft.Dynamics.CRM.lookuplogicalname';
+
+export interface ResultCell {
+  value: any;
+  // Option set label, lookup name, currency amount etc. as shown in Dynamics
+  formatted?: string;
+  // Table a lookup value points to
+  lookupLogicalName?: string;
+}
+
 export interface FormattedResult {
   columns: string[];
-  rows: any[][];
+  rows: ResultCell[][];
   totalCount: number;
+  // Organization the records came from
+  orgUrl: string;
   executionTime: number;
 }
 
@@ -18,35 +32,77 @@ export class ResultsHandler {
    * Format query results for display
    */
   public formatResults(queryResult: QueryResult): FormattedResult {
-    const { data, executionTime } = queryResult;
+    const { data, orgUrl, executionTime } = queryResult;
     
     if (!data || data.length === 0) {
       return {
         columns: [],
         rows: [],
         totalCount: 0,
+        orgUrl,
         executionTime
       };
     }
     
-    // Extract column names from the first result
-    const columns = Object.keys(data[0]);
+    const columns = this.getColumns(data);
     
-    // Convert data to rows
-    const rows = data.map(item => columns.map(col => item[col]));
+    // Convert data to rows, pairing each value with its annotations
+    const rows = data.map(item => columns.map(col => this.createCell(item, col)));
     
     return {
       columns,
       rows,
       totalCount: data.length,
+      orgUrl,
       executionTime
     };
   }
   
   /**
-   * Export results to CSV format
+   * Collect column names across all records, in first-seen order.
+   * FetchXML responses leave out null columns, so rows can differ.
+   * Annotations such as @odata.etag or formatted values are not columns.
+   */
+  public getColumns(data: any[]): string[] {
+    const columns = new Set<string>();
+    
+    data.forEach(item => {
+      Object.keys(item)
+        .filter(key => !key.includes('@'))
+        .forEach(key => columns.add(key));
+    });
+    
+    return Array.from(columns);
+  }
+  
+  /**
+   * Get the value to show for a cell, falling back to the raw value
+   * for columns without a formatted value
+   */
+  public getCellValue(cell: ResultCell, formatted: boolean): any {
+    return formatted && cell.formatted !== undefined ? cell.formatted : cell.value;
+  }
+  
+  private createCell(item: any, column: string): ResultCell {
+    const cell: ResultCell = { value: item[column] };
+    
+    const formatted = item[`${column}${FORMATTED_VALUE_ANNOTATION}`];
+    if (formatted !== undefined) {
+      cell.formatted = formatted;
+    }
+    
+    const lookupLogicalName = item[`${column}${LOOKUP_LOGICAL_NAME_ANNOTATION}`];
+    if (lookupLogicalName !== undefined) {
+      cell.lookupLogicalName = lookupLogicalName;
+    }
+    
+    return cell;
+  }
+  
+  /**
+   * Export results to CSV format, with either raw or formatted values
    */
-  public exportToCsv(formattedResult: FormattedResult): string {
+  public exportToCsv(formattedResult: FormattedResult, formatted = false): string {
     const { columns, rows } = formattedResult;
     
     if (columns.length === 0) {
@@ -58,7 +114,9 @@ export class ResultsHandler {
     
     // Add rows
     rows.forEach(row => {
-      const csvRow = row.map(cell => {
+      const csvRow = row.map(resultCell => {
+        const cell = this.getCellValue(resultCell, formatted);
+        
         // Handle null values
         if (cell === null || cell === undefined) {
           return '';
@@ -102,7 +160,7 @@ export class ResultsHandler {
    * Sort results by column
    */
   public sortResults(formattedResult: FormattedResult, columnIndex: number, ascending: boolean): FormattedResult {
-    const { columns, rows, totalCount, executionTime } = formattedResult;
+    const { columns, rows, totalCount, orgUrl, executionTime } = formattedResult;
     
     if (columns.length === 0 || rows.length === 0) {
       return formattedResult;
@@ -110,8 +168,8 @@ export class ResultsHandler {
     
     // Sort rows
     const sortedRows = [...rows].sort((a, b) => {
-      const valueA = a[columnIndex];
-      const valueB = b[columnIndex];
+      const valueA = a[columnIndex].value;
+      const valueB = b[columnIndex].value;
       
       // Handle null values
       if (valueA === null && valueB === null) return 0;
@@ -134,6 +192,7 @@ export class ResultsHandler {
       columns,
       rows: sortedRows,
       totalCount,
+      orgUrl,
       executionTime
     };
   }
@@ -0,0 +1,272 @@
+/**
+ * SQL AST for Dynamics CRM SQL Query Extension
+ *
+ * Typed syntax tree produced by the SQL parser
+ */
+
+import { SourcePosition } from './sql-lexer';
+
+export type LiteralValue = string | number | boolean | null;
+
+export interface ColumnReference {
+  type: 'Column';
+  table?: string;
+  name: string;
+  position: SourcePosition;
+}
+
+export interface Literal {
+  type: 'Literal';
+  value: LiteralValue;
+  position: SourcePosition;
+}
+
+export type AggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+
+export interface AggregateCall {
+  type: 'Aggregate';
+  function: AggregateFunction;
+  // Undefined for COUNT(*)
+  argument?: ColumnReference;
+  distinct: boolean;
+  alias?: string;
+  position: SourcePosition;
+}
+
+export type Operand = ColumnReference | Literal | AggregateCall;
+
+export type SelectItem = ColumnReference | AggregateCall;
+
+export type ComparisonOperator = '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export interface ComparisonExpression {
+  type: 'Comparison';
+  operator: ComparisonOperator;
+  left: Operand;
+  right: Operand;
+}
+
+export interface LikeExpression {
+  type: 'Like';
+  operand: ColumnReference;
+  pattern: string;
+  negated: boolean;
+}
+
+export interface InExpression {
+  type: 'In';
+  operand: ColumnReference;
+  values: Literal[];
+  negated: boolean;
+}
+
+export interface BetweenExpression {
+  type: 'Between';
+  operand: ColumnReference;
+  lower: Literal;
+  upper: Literal;
+  negated: boolean;
+}
+
+export type QueryFunctionName =
+  | 'LAST_X_DAYS'
+  | 'THIS_MONTH'
+  | 'TODAY'
+  | 'CURRENT_USER'
+  | 'CURRENT_BUSINESS_UNIT'
+  | 'UNDER';
+
+/**
+ * A Dataverse query function compared with a column, e.g. createdon = LAST_X_DAYS(7)
+ */
+export interface QueryFunctionExpression {
+  type: 'Function';
+  operand: ColumnReference;
+  function: QueryFunctionName;
+  argument?: Literal;
+  // column <> FUNCTION()
+  negated: boolean;
+  position: SourcePosition;
+}
+
+export interface QueryFunctionDefinition {
+  // Web API function in the Microsoft.Dynamics.CRM namespace
+  odata: string;
+  // FetchXML condition operator
+  fetchXml: string;
+  // Dedicated negated forms, where Dataverse has them
+  negatedOData?: string;
+  negatedFetchXml?: string;
+  argument?: 'number' | 'string';
+}
+
+export const QUERY_FUNCTIONS: Record<QueryFunctionName, QueryFunctionDefinition> = {
+  'LAST_X_DAYS': { odata: 'LastXDays', fetchXml: 'last-x-days', argument: 'number' },
+  'THIS_MONTH': { odata: 'ThisMonth', fetchXml: 'this-month' },
+  'TODAY': { odata: 'Today', fetchXml: 'today' },
+  'CURRENT_USER': {
+    odata: 'EqualUserId',
+    fetchXml: 'eq-userid',
+    negatedOData: 'NotEqualUserId',
+    negatedFetchXml: 'ne-userid'
+  },
+  'CURRENT_BUSINESS_UNIT': {
+    odata: 'EqualBusinessId',
+    fetchXml: 'eq-businessid',
+    negatedOData: 'NotEqualBusinessId',
+    negatedFetchXml: 'ne-businessid'
+  },
+  'UNDER': {
+    odata: 'Under',
+    fetchXml: 'under',
+    negatedOData: 'NotUnder',
+    negatedFetchXml: 'not-under',
+    argument: 'string'
+  }
+};
+
+export interface NotExpression {
+  type: 'Not';
+  operand: Expression;
+}
+
+export interface IsNullExpression {
+  type: 'IsNull';
+  operand: ColumnReference;
+  negated: boolean;
+}
+
+export interface LogicalExpression {
+  type: 'Logical';
+  operator: 'AND' | 'OR';
+  left: Expression;
+  right: Expression;
+}
+
+export type Expression =
+  | ComparisonExpression
+  | LikeExpression
+  | InExpression
+  | BetweenExpression
+  | IsNullExpression
+  | LogicalExpression
+  | NotExpression
+  | QueryFunctionExpression;
+
+export interface OrderByItem {
+  column: ColumnReference | AggregateCall;
+  direction: 'asc' | 'desc';
+}
+
+export interface TableReference {
+  name: string;
+  alias?: string;
+  position: SourcePosition;
+}
+
+export interface JoinClause {
+  type: 'INNER' | 'LEFT';
+  table: TableReference;
+  on: {
+    left: ColumnReference;
+    right: ColumnReference;
+  };
+}
+
+export interface SelectStatement {
+  type: 'Select';
+  // Empty when the query selects *
+  columns: SelectItem[];
+  from: TableReference;
+  joins: JoinClause[];
+  where?: Expression;
+  groupBy: ColumnReference[];
+  having?: Expression;
+  orderBy: OrderByItem[];
+  limit?: number;
+}
+
+export interface InsertStatement {
+  type: 'Insert';
+  table: TableReference;
+  columns: ColumnReference[];
+  values: Literal[];
+}
+
+export interface Assignment {
+  column: ColumnReference;
+  value: Literal;
+}
+
+export interface UpdateStatement {
+  type: 'Update';
+  table: TableReference;
+  assignments: Assignment[];
+  where?: Expression;
+}
+
+export interface DeleteStatement {
+  type: 'Delete';
+  table: TableReference;
+  where?: Expression;
+}
+
+export type Statement = SelectStatement | InsertStatement | UpdateStatement | DeleteStatement;
+
+/**
+ * Collect every column referenced by an expression
+ */
+export function collectColumns(expression: Expression): ColumnReference[] {
+  switch (expression.type) {
+    case 'Logical':
+      return [...collectColumns(expression.left), ...collectColumns(expression.right)];
+    case 'Comparison':
+      return [expression.left, expression.right].filter(
+        (operand): operand is ColumnReference => operand.type === 'Column'
+      );
+    case 'Like':
+    case 'In':
+    case 'Between':
+    case 'IsNull':
+    case 'Function':
+      return [expression.operand];
+    case 'Not':
+      return collectColumns(expression.operand);
+  }
+}
+
+const NEGATED_OPERATORS: Record<ComparisonOperator, ComparisonOperator> = {
+  '=': '<>',
+  '<>': '=',
+  '<': '>=',
+  '>': '<=',
+  '<=': '>',
+  '>=': '<'
+};
+
+/**
+ * Push a NOT down to the conditions it applies to, for back ends
+ * (such as FetchXML) that have no generic negation
+ */
+export function negate(expression: Expression): Expression {
+  switch (expression.type) {
+    case 'Logical':
+      // De Morgan: NOT (a AND b) = NOT a OR NOT b
+      return {
+        type: 'Logical',
+        operator: expression.operator === 'AND' ? 'OR' : 'AND',
+        left: negate(expression.left),
+        right: negate(expression.right)
+      };
+    case 'Comparison':
+      return { ...expression, operator: NEGATED_OPERATORS[expression.operator] };
+    case 'Like':
+    case 'In':
+    case 'Between':
+    case 'IsNull':
+    case 'Function':
+      return { ...expression, negated: !expression.negated };
+    case 'Not':
+      return expression.operand;
+  }
+}
@@ -0,0 +1,511 @@
+/**
+ * SQL Editor for Dynamics CRM SQL Query Extension
+ *
+ * Adds syntax highlighting, error markers and table/column autocomplete to a
+ * textarea. The highlighting is drawn in a layer behind the transparent textarea,
+ * so editing, undo and selection stay native.
+ */
+
+import sqlLexer, { Token, SqlSyntaxError } from './sql-lexer';
+import sqlParser from './sql-parser';
+
+export interface EditorMarker {
+  offset: number;
+  length: number;
+  message: string;
+}
+
+/**
+ * Supplies the names offered by autocomplete
+ */
+export interface CompletionSource {
+  getTables(): Promise<string[]>;
+  getColumns(table: string): Promise<string[]>;
+}
+
+interface HighlightRange {
+  start: number;
+  end: number;
+  className: string;
+}
+
+type CompletionKind = 'table' | 'column';
+
+// Keywords that decide what the next name refers to
+const TABLE_KEYWORDS = ['FROM', 'JOIN', 'UPDATE', 'INTO'];
+const COLUMN_KEYWORDS = ['SELECT', 'WHERE', 'ON', 'BY', 'HAVING', 'SET'];
+const CLAUSE_KEYWORDS = [...TABLE_KEYWORDS, ...COLUMN_KEYWORDS, 'VALUES', 'LIMIT'];
+
+const TOKEN_CLASSES: Partial<Record<Token['type'], string>> = {
+  keyword: 'sql-keyword',
+  string: 'sql-string',
+  number: 'sql-number',
+  operator: 'sql-operator',
+  punctuation: 'sql-operator'
+};
+
+const MAX_SUGGESTIONS = 50;
+
+// Wait for a pause in typing before parsing
+const PARSE_DELAY = 300;
+
+export class SqlEditor {
+  private highlightLayer: HTMLElement;
+  private suggestionList: HTMLUListElement;
+  private messageElement: HTMLElement;
+
+  // Markers set from outside, e.g. validation issues; cleared on edit
+  private markers: EditorMarker[] = [];
+  private syntaxMarker: EditorMarker | null = null;
+  private parseTimer: number | undefined;
+
+  private suggestions: string[] = [];
+  private selectedSuggestion = 0;
+  private completionStart = 0;
+  // Ignore completions that arrive after the text has moved on
+  private completionRequest = 0;
+  private suppressSuggestions = false;
+
+  constructor(private textarea: HTMLTextAreaElement, private completions: CompletionSource) {
+    const container = textarea.parentElement as HTMLElement;
+
+    this.highlightLayer = document.createElement('pre');
+    this.highlightLayer.className = 'sql-highlight';
+    this.highlightLayer.setAttribute('aria-hidden', 'true');
+    container.insertBefore(this.highlightLayer, textarea);
+
+    this.suggestionList = document.createElement('ul');
+    this.suggestionList.className = 'autocomplete-list hidden';
+    container.appendChild(this.suggestionList);
+
+    this.messageElement = document.createElement('div');
+    this.messageElement.className = 'editor-message';
+    container.insertAdjacentElement('afterend', this.messageElement);
+
+    this.initEventListeners();
+    this.render();
+  }
+
+  getValue(): string {
+    return this.textarea.value;
+  }
+
+  /**
+   * Replace the text, e.g. with a saved or imported query
+   */
+  setValue(value: string): void {
+    this.textarea.value = value;
+    this.markers = [];
+    this.closeSuggestions();
+    this.parse();
+  }
+
+  /**
+   * Show error markers, e.g. from validation, until the text changes
+   */
+  setMarkers(markers: EditorMarker[]): void {
+    this.markers = markers;
+    this.render();
+  }
+
+  private initEventListeners(): void {
+    this.textarea.addEventListener('input', () => {
+      this.markers = [];
+      this.render();
+      this.scheduleParse();
+      if (!this.suppressSuggestions) {
+        this.updateSuggestions(false);
+      }
+    });
+
+    this.textarea.addEventListener('scroll', () => {
+      this.highlightLayer.scrollTop = this.textarea.scrollTop;
+      this.highlightLayer.scrollLeft = this.textarea.scrollLeft;
+    });
+
+    this.textarea.addEventListener('keydown', event => this.handleKeyDown(event));
+    this.textarea.addEventListener('click', () => this.closeSuggestions());
+    this.textarea.addEventListener('blur', () => this.closeSuggestions());
+
+    // Keep focus in the textarea while picking a suggestion
+    this.suggestionList.addEventListener('mousedown', event => {
+      event.preventDefault();
+      const item = (event.target as HTMLElement).closest('li');
+      if (item) {
+        this.acceptSuggestion(Number(item.dataset.index));
+      }
+    });
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    // Ctrl+Space asks for suggestions explicitly
+    if (event.key === ' ' && event.ctrlKey) {
+      event.preventDefault();
+      this.updateSuggestions(true);
+      return;
+    }
+
+    if (this.suggestions.length === 0) {
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.selectSuggestion((this.selectedSuggestion + 1) % this.suggestions.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.selectSuggestion((this.selectedSuggestion - 1 + this.suggestions.length) % this.suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        event.preventDefault();
+        this.acceptSuggestion(this.selectedSuggestion);
+        break;
+      case 'Escape':
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        this.closeSuggestions();
+        break;
+    }
+  }
+
+  // Highlighting
+
+  private render(): void {
+    const sql = this.textarea.value;
+    const ranges = this.highlightRanges(sql);
+
+    const markers = this.syntaxMarker ? [...this.markers, this.syntaxMarker] : this.markers;
+    const markerRanges = markers.map(marker => ({
+      start: marker.offset,
+      end: marker.offset + Math.max(1, marker.length),
+      className: 'sql-error'
+    }));
+
+    // Split the text wherever a token or marker starts or ends
+    const boundaries = new Set([0, sql.length]);
+    [...ranges, ...markerRanges].forEach(range => {
+      boundaries.add(Math.min(range.start, sql.length));
+      boundaries.add(Math.min(range.end, sql.length));
+    });
+    const points = Array.from(boundaries).sort((a, b) => a - b);
+
+    this.highlightLayer.innerHTML = '';
+    for (let i = 0; i < points.length - 1; i++) {
+      const start = points[i];
+      const end = points[i + 1];
+      const classes = [...ranges, ...markerRanges]
+        .filter(range => range.start <= start && range.end >= end)
+        .map(range => range.className);
+
+      const span = document.createElement('span');
+      span.textContent = sql.slice(start, end);
+      span.className = classes.join(' ');
+      this.highlightLayer.appendChild(span);
+    }
+
+    // A trailing newline only takes up space in a pre when followed by text
+    this.highlightLayer.appendChild(document.createTextNode(sql.endsWith('\n') ? ' ' : ''));
+
+    const message = markers.length > 0 ? markers[0].message : '';
+    this.messageElement.textContent = message;
+    this.messageElement.classList.toggle('hidden', !message);
+  }
+
+  private highlightRanges(sql: string): HighlightRange[] {
+    const { tokens, validLength } = this.tokenize(sql);
+    const ranges: HighlightRange[] = [];
+    let position = 0;
+
+    tokens.forEach((token, index) => {
+      // Only comments and whitespace sit between tokens
+      if (sql.slice(position, token.start.offset).trim()) {
+        ranges.push({ start: position, end: token.start.offset, className: 'sql-comment' });
+      }
+      position = token.end.offset;
+
+      const next = tokens[index + 1];
+      const isCall = token.type === 'identifier' && next?.type === 'punctuation' && next.value === '(';
+      const className = isCall ? 'sql-function' : TOKEN_CLASSES[token.type];
+      if (className) {
+        ranges.push({ start: token.start.offset, end: token.end.offset, className });
+      }
+    });
+
+    if (sql.slice(position, validLength).trim()) {
+      ranges.push({ start: position, end: validLength, className: 'sql-comment' });
+    }
+
+    // Color an unterminated string or comment as it is being typed
+    const rest = sql.slice(validLength);
+    if (rest.startsWith("'")) {
+      ranges.push({ start: validLength, end: sql.length, className: 'sql-string' });
+    } else if (rest.startsWith('/*')) {
+      ranges.push({ start: validLength, end: sql.length, className: 'sql-comment' });
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Tokenize as much of the text as the lexer accepts
+   */
+  private tokenize(sql: string): { tokens: Token[]; validLength: number } {
+    try {
+      return { tokens: this.withoutEof(sqlLexer.tokenize(sql)), validLength: sql.length };
+    } catch (error) {
+      if (!(error instanceof SqlSyntaxError)) {
+        throw error;
+      }
+      try {
+        return { tokens: this.withoutEof(sqlLexer.tokenize(sql.slice(0, error.offset))), validLength: error.offset };
+      } catch (e) {
+        return { tokens: [], validLength: 0 };
+      }
+    }
+  }
+
+  private withoutEof(tokens: Token[]): Token[] {
+    return tokens.filter(token => token.type !== 'eof');
+  }
+
+  // Error markers
+
+  private scheduleParse(): void {
+    window.clearTimeout(this.parseTimer);
+    this.parseTimer = window.setTimeout(() => this.parse(), PARSE_DELAY);
+  }
+
+  private parse(): void {
+    this.syntaxMarker = null;
+
+    if (this.textarea.value.trim()) {
+      try {
+        sqlParser.parse(this.textarea.value);
+      } catch (error) {
+        if (error instanceof SqlSyntaxError) {
+          this.syntaxMarker = { offset: error.offset, length: error.length, message: error.message };
+        }
+      }
+    }
+
+    this.render();
+  }
+
+  // Autocomplete
+
+  private async updateSuggestions(explicit: boolean): Promise<void> {
+    const request = ++this.completionRequest;
+    const { selectionStart, selectionEnd, value } = this.textarea;
+
+    if (selectionStart !== selectionEnd) {
+      this.closeSuggestions();
+      return;
+    }
+
+    const before = value.slice(0, selectionStart);
+    const word = (before.match(/[A-Za-z0-9_]*$/) as RegExpMatchArray)[0];
+    const qualifierMatch = before.slice(0, before.length - word.length).match(/([A-Za-z0-9_]+)\.$/);
+
+    // Only open while typing a name, unless asked
+    if (!explicit && !word && !qualifierMatch) {
+      this.closeSuggestions();
+      return;
+    }
+
+    const contextEnd = before.length - word.length - (qualifierMatch ? qualifierMatch[0].length : 0);
+    const kind = this.completionKind(value.slice(0, contextEnd));
+    if (!kind || (kind === 'table' && qualifierMatch)) {
+      this.closeSuggestions();
+      return;
+    }
+
+    let names: string[];
+    try {
+      names = kind === 'table'
+        ? await this.completions.getTables()
+        : await this.columnNames(value, qualifierMatch ? qualifierMatch[1] : undefined);
+    } catch (error) {
+      // Metadata is unavailable, e.g. outside Dynamics
+      names = [];
+    }
+
+    if (request !== this.completionRequest) {
+      return;
+    }
+
+    this.completionStart = selectionStart - word.length;
+    this.showSuggestions(this.rankSuggestions(names, word));
+  }
+
+  /**
+   * Decide from the text before the current word whether a table or column name is expected
+   */
+  private completionKind(prefix: string): CompletionKind | null {
+    const { tokens, validLength } = this.tokenize(prefix);
+    if (validLength < prefix.length) {
+      // Inside a string or comment
+      return null;
+    }
+
+    const last = tokens[tokens.length - 1];
+    if (last?.type === 'keyword' && TABLE_KEYWORDS.includes(last.value)) {
+      return 'table';
+    }
+
+    const clause = [...tokens].reverse().find(token => token.type === 'keyword' && CLAUSE_KEYWORDS.includes(token.value));
+    if (!clause) {
+      return null;
+    }
+    if (COLUMN_KEYWORDS.includes(clause.value)) {
+      return 'column';
+    }
+    // The column list of INSERT INTO table (...)
+    if (clause.value === 'INTO') {
+      return 'column';
+    }
+    return null;
+  }
+
+  /**
+   * Columns of the tables named in the query, or of one table when qualified with its alias
+   */
+  private async columnNames(sql: string, qualifier: string | undefined): Promise<string[]> {
+    const tables = this.referencedTables(sql);
+
+    let tableNames: string[];
+    if (qualifier) {
+      const table = tables.get(qualifier.toLowerCase());
+      tableNames = table ? [table] : [];
+    } else {
+      tableNames = Array.from(new Set(tables.values()));
+    }
+
+    const columns = await Promise.all(tableNames.map(table => this.completions.getColumns(table)));
+    return Array.from(new Set(columns.flat()));
+  }
+
+  // Map each table name and alias (lower-cased) to its table
+  private referencedTables(sql: string): Map<string, string> {
+    const { tokens } = this.tokenize(sql);
+    const tables = new Map<string, string>();
+
+    tokens.forEach((token, index) => {
+      if (token.type !== 'keyword' || !TABLE_KEYWORDS.includes(token.value)) {
+        return;
+      }
+
+      const table = tokens[index + 1];
+      if (table?.type !== 'identifier') {
+        return;
+      }
+      tables.set(table.value.toLowerCase(), table.value);
+
+      let aliasIndex = index + 2;
+      if (tokens[aliasIndex]?.type === 'keyword' && tokens[aliasIndex].value === 'AS') {
+        aliasIndex++;
+      }
+      const alias = tokens[aliasIndex];
+      if (alias?.type === 'identifier') {
+        tables.set(alias.value.toLowerCase(), table.value);
+      }
+    });
+
+    return tables;
+  }
+
+  // Names starting with the typed text first, then names containing it
+  private rankSuggestions(names: string[], word: string): string[] {
+    const lowerWord = word.toLowerCase();
+    const sorted = [...names].sort((a, b) => a.localeCompare(b));
+    const prefixed = sorted.filter(name => name.toLowerCase().startsWith(lowerWord));
+    const containing = sorted.filter(name =>
+      !name.toLowerCase().startsWith(lowerWord) && name.toLowerCase().includes(lowerWord)
+    );
+    const suggestions = [...prefixed, ...containing].slice(0, MAX_SUGGESTIONS);
+
+    // Nothing to offer once the name is complete
+    if (suggestions.length === 1 && suggestions[0] === word) {
+      return [];
+    }
+    return suggestions;
+  }
+
+  private showSuggestions(suggestions: string[]): void {
+    this.suggestions = suggestions;
+    this.suggestionList.innerHTML = '';
+
+    if (suggestions.length === 0) {
+      this.closeSuggestions();
+      return;
+    }
+
+    suggestions.forEach((suggestion, index) => {
+      const li = document.createElement('li');
+      li.textContent = suggestion;
+      li.dataset.index = String(index);
+      this.suggestionList.appendChild(li);
+    });
+
+    this.selectSuggestion(0);
+    this.positionSuggestions();
+    this.suggestionList.classList.remove('hidden');
+  }
+
+  private selectSuggestion(index: number): void {
+    this.selectedSuggestion = index;
+    Array.from(this.suggestionList.children).forEach((item, itemIndex) => {
+      item.classList.toggle('selected', itemIndex === index);
+      if (itemIndex === index) {
+        item.scrollIntoView({ block: 'nearest' });
+      }
+    });
+  }
+
+  private acceptSuggestion(index: number): void {
+    const suggestion = this.suggestions[index];
+    if (suggestion === undefined) {
+      return;
+    }
+
+    this.closeSuggestions();
+    this.textarea.setRangeText(suggestion, this.completionStart, this.textarea.selectionStart, 'end');
+
+    // Let listeners (e.g. saving the query) see the change, without reopening the list
+    this.suppressSuggestions = true;
+    this.textarea.dispatchEvent(new Event('input'));
+    this.suppressSuggestions = false;
+  }
+
+  private closeSuggestions(): void {
+    this.completionRequest++;
+    this.suggestions = [];
+    this.suggestionList.classList.add('hidden');
+  }
+
+  // Place the list under the caret, measured from the highlight layer
+  private positionSuggestions(): void {
+    const range = document.createRange();
+    let remaining = this.completionStart;
+
+    const walker = document.createTreeWalker(this.highlightLayer, NodeFilter.SHOW_TEXT);
+    let node = walker.nextNode();
+    while (node && remaining > (node.textContent || '').length) {
+      remaining -= (node.textContent || '').length;
+      node = walker.nextNode();
+    }
+    if (!node) {
+      return;
+    }
+
+    range.setStart(node, remaining);
+    range.setEnd(node, remaining);
+
+    const caret = range.getBoundingClientRect();
+    const container = (this.textarea.parentElement as HTMLElement).getBoundingClientRect();
+    this.suggestionList.style.left = `${caret.left - container.left}px`;
+    this.suggestionList.style.top = `${caret.bottom - container.top}px`;
+  }
+}
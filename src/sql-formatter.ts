@@ -0,0 +1,181 @@
+/**
+ * SQL Formatter for Dynamics CRM SQL Query Extension
+ *
+ * Renders parsed queries back into SQL that the SQL parser accepts
+ */
+
+import { ParsedQuery } from './sql-parser';
+import { Expression, Operand, ColumnReference, LiteralValue } from './sql-ast';
+import { isKeyword } from './sql-lexer';
+
+export class SqlFormatter {
+  /**
+   * Format a SELECT query as SQL, one clause per line
+   */
+  format(query: ParsedQuery): string {
+    if (query.operation !== 'SELECT') {
+      throw new Error('Only SELECT queries can be formatted as SQL');
+    }
+
+    const joins = query.joins || [];
+    const baseAlias = query.alias || query.entity;
+
+    // Columns are qualified whenever more than one table is involved
+    const column = (field: string, alias?: string): string => {
+      if (joins.length === 0) {
+        return this.identifier(field);
+      }
+      return `${this.identifier(alias || baseAlias)}.${this.identifier(field)}`;
+    };
+
+    // Aggregate queries refer to grouped columns by result name in HAVING and ORDER BY
+    const resultColumn = (name: string): string => {
+      const group = (query.groupBy || []).find(item => item.name === name);
+      return group ? column(group.field, group.alias) : this.identifier(name);
+    };
+
+    const lines: string[] = [];
+
+    let items: string[];
+    if (query.aggregates) {
+      items = [
+        ...(query.groupBy || []).map(group => column(group.field, group.alias)),
+        ...query.aggregates.map(aggregate => {
+          const argument = aggregate.field
+            ? `${aggregate.distinct ? 'DISTINCT ' : ''}${column(aggregate.field, aggregate.alias)}`
+            : '*';
+          return `${aggregate.function}(${argument}) AS ${this.identifier(aggregate.name)}`;
+        })
+      ];
+    } else if (query.fields) {
+      items = [
+        ...query.fields.map(field => column(field)),
+        ...joins.flatMap(join => (join.fields || []).map(field => column(field, join.alias)))
+      ];
+    } else {
+      items = [];
+    }
+
+    lines.push(`SELECT ${items.length > 0 ? items.join(', ') : '*'}`);
+    lines.push(`FROM ${this.identifier(query.entity)}${query.alias ? ` ${this.identifier(query.alias)}` : ''}`);
+
+    joins.forEach(join => {
+      const joinType = join.type === 'LEFT' ? 'LEFT JOIN' : 'INNER JOIN';
+      lines.push(
+        `${joinType} ${this.identifier(join.entity)} ${this.identifier(join.alias)} ` +
+        `ON ${this.identifier(join.alias)}.${this.identifier(join.from)} = ` +
+        `${this.identifier(join.toAlias)}.${this.identifier(join.to)}`
+      );
+    });
+
+    if (query.where) {
+      lines.push(`WHERE ${this.formatExpression(query.where)}`);
+    }
+
+    if (query.groupBy && query.groupBy.length > 0) {
+      lines.push(`GROUP BY ${query.groupBy.map(group => column(group.field, group.alias)).join(', ')}`);
+    }
+
+    if (query.having) {
+      lines.push(`HAVING ${this.formatExpression(query.having, item => resultColumn(item.name))}`);
+    }
+
+    if (query.orderBy && query.orderBy.length > 0) {
+      const orderItems = query.orderBy.map(item => {
+        const target = query.aggregates ? resultColumn(item.field) : column(item.field, item.alias);
+        return item.direction === 'desc' ? `${target} DESC` : target;
+      });
+      lines.push(`ORDER BY ${orderItems.join(', ')}`);
+    }
+
+    if (query.limit !== undefined) {
+      lines.push(`LIMIT ${query.limit}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Format a WHERE or HAVING expression
+   */
+  formatExpression(
+    expression: Expression,
+    formatColumn: (column: ColumnReference) => string = column => this.formatColumn(column)
+  ): string {
+    return this.formatNode(expression, null, formatColumn);
+  }
+
+  private formatNode(
+    expression: Expression,
+    parentOperator: 'AND' | 'OR' | null,
+    formatColumn: (column: ColumnReference) => string
+  ): string {
+    switch (expression.type) {
+      case 'Logical': {
+        const text = `${this.formatNode(expression.left, expression.operator, formatColumn)} ${expression.operator} ` +
+          this.formatNode(expression.right, expression.operator, formatColumn);
+        // OR binds looser than AND, so it needs parentheses inside an AND
+        return parentOperator === 'AND' && expression.operator === 'OR' ? `(${text})` : text;
+      }
+      case 'Comparison':
+        return `${this.formatOperand(expression.left, formatColumn)} ${expression.operator} ` +
+          this.formatOperand(expression.right, formatColumn);
+      case 'Not': {
+        const operand = this.formatNode(expression.operand, null, formatColumn);
+        return expression.operand.type === 'Logical' ? `NOT (${operand})` : `NOT ${operand}`;
+      }
+      case 'Like':
+        return `${formatColumn(expression.operand)} ${expression.negated ? 'NOT ' : ''}LIKE ` +
+          this.formatLiteral(expression.pattern);
+      case 'In': {
+        const values = expression.values.map(value => this.formatLiteral(value.value)).join(', ');
+        return `${formatColumn(expression.operand)} ${expression.negated ? 'NOT ' : ''}IN (${values})`;
+      }
+      case 'Between':
+        return `${formatColumn(expression.operand)} ${expression.negated ? 'NOT ' : ''}BETWEEN ` +
+          `${this.formatLiteral(expression.lower.value)} AND ${this.formatLiteral(expression.upper.value)}`;
+      case 'IsNull':
+        return `${formatColumn(expression.operand)} IS ${expression.negated ? 'NOT ' : ''}NULL`;
+      case 'Function': {
+        const argument = expression.argument ? this.formatLiteral(expression.argument.value) : '';
+        return `${formatColumn(expression.operand)} ${expression.negated ? '<>' : '='} ${expression.function}(${argument})`;
+      }
+    }
+  }
+
+  private formatOperand(operand: Operand, formatColumn: (column: ColumnReference) => string): string {
+    switch (operand.type) {
+      case 'Column':
+        return formatColumn(operand);
+      case 'Literal':
+        return this.formatLiteral(operand.value);
+      case 'Aggregate': {
+        const argument = operand.argument ? this.formatColumn(operand.argument) : '*';
+        return `${operand.function}(${operand.distinct ? 'DISTINCT ' : ''}${argument})`;
+      }
+    }
+  }
+
+  private formatColumn(column: ColumnReference): string {
+    return column.table
+      ? `${this.identifier(column.table)}.${this.identifier(column.name)}`
+      : this.identifier(column.name);
+  }
+
+  private formatLiteral(value: LiteralValue): string {
+    if (value === null) return 'NULL';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (typeof value === 'number') return String(value);
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  // Quote names that are not plain identifiers or clash with keywords
+  private identifier(name: string): string {
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !isKeyword(name)) {
+      return name;
+    }
+    return `[${name.replace(/]/g, ']]')}]`;
+  }
+}
+
+export default new SqlFormatter();
@@ -0,0 +1,222 @@
+/**
+ * SQL Lexer for Dynamics CRM SQL Query Extension
+ *
+ * Splits a SQL-like query string into positioned tokens for the parser
+ */
+
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export type TokenType = 'keyword' | 'identifier' | 'string' | 'number' | 'operator' | 'punctuation' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  // Normalized value: upper-cased keywords, unquoted identifiers and strings
+  value: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * Error raised for malformed queries, carrying the position of the offending token
+ */
+export class SqlSyntaxError extends Error {
+  public readonly line: number;
+  public readonly column: number;
+  public readonly offset: number;
+  public readonly length: number;
+
+  constructor(message: string, start: SourcePosition, length = 1) {
+    super(`${message} at line ${start.line}, column ${start.column}`);
+    this.name = 'SqlSyntaxError';
+    this.line = start.line;
+    this.column = start.column;
+    this.offset = start.offset;
+    this.length = length;
+  }
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'ORDER', 'BY', 'ASC', 'DESC', 'LIMIT',
+  'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE',
+  'AND', 'OR', 'NOT', 'IS', 'NULL', 'LIKE', 'TRUE', 'FALSE',
+  'JOIN', 'INNER', 'LEFT', 'OUTER', 'ON', 'AS',
+  'GROUP', 'HAVING', 'DISTINCT', 'IN', 'BETWEEN'
+]);
+
+/**
+ * Check whether a word is reserved and must be quoted to be used as an identifier
+ */
+export function isKeyword(word: string): boolean {
+  return KEYWORDS.has(word.toUpperCase());
+}
+
+const OPERATORS = ['<>', '!=', '<=', '>=', '=', '<', '>', '-', '*'];
+
+const PUNCTUATION = ['(', ')', ',', '.', ';'];
+
+export class SqlLexer {
+  private sql = '';
+  private offset = 0;
+  private line = 1;
+  private column = 1;
+
+  /**
+   * Tokenize a SQL-like query string
+   */
+  tokenize(sql: string): Token[] {
+    this.sql = sql;
+    this.offset = 0;
+    this.line = 1;
+    this.column = 1;
+
+    const tokens: Token[] = [];
+
+    while (true) {
+      this.skipWhitespaceAndComments();
+
+      if (this.offset >= this.sql.length) {
+        const position = this.position();
+        tokens.push({ type: 'eof', value: '', start: position, end: position });
+        return tokens;
+      }
+
+      tokens.push(this.readToken());
+    }
+  }
+
+  private readToken(): Token {
+    const start = this.position();
+    const char = this.sql[this.offset];
+
+    // String literals, with '' as an escaped quote
+    if (char === "'") {
+      return { type: 'string', value: this.readQuoted("'", 'string literal'), start, end: this.position() };
+    }
+
+    // Quoted identifiers: "name" or [name]
+    if (char === '"') {
+      return { type: 'identifier', value: this.readQuoted('"', 'quoted identifier'), start, end: this.position() };
+    }
+    if (char === '[') {
+      return { type: 'identifier', value: this.readQuoted(']', 'quoted identifier'), start, end: this.position() };
+    }
+
+    // Numbers
+    if (this.isDigit(char) || (char === '.' && this.isDigit(this.sql[this.offset + 1]))) {
+      let text = '';
+      while (this.offset < this.sql.length && (this.isDigit(this.sql[this.offset]) || this.sql[this.offset] === '.')) {
+        text += this.advance();
+      }
+      if (isNaN(Number(text))) {
+        throw new SqlSyntaxError(`Invalid number '${text}'`, start, text.length);
+      }
+      return { type: 'number', value: text, start, end: this.position() };
+    }
+
+    // Keywords and bare identifiers
+    if (this.isIdentifierStart(char)) {
+      let text = '';
+      while (this.offset < this.sql.length && this.isIdentifierPart(this.sql[this.offset])) {
+        text += this.advance();
+      }
+      const upper = text.toUpperCase();
+      if (KEYWORDS.has(upper)) {
+        return { type: 'keyword', value: upper, start, end: this.position() };
+      }
+      return { type: 'identifier', value: text, start, end: this.position() };
+    }
+
+    for (const operator of OPERATORS) {
+      if (this.sql.startsWith(operator, this.offset)) {
+        for (let i = 0; i < operator.length; i++) this.advance();
+        return { type: 'operator', value: operator === '!=' ? '<>' : operator, start, end: this.position() };
+      }
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      this.advance();
+      return { type: 'punctuation', value: char, start, end: this.position() };
+    }
+
+    throw new SqlSyntaxError(`Unexpected character '${char}'`, start);
+  }
+
+  private readQuoted(closing: string, description: string): string {
+    const start = this.position();
+    this.advance(); // Opening quote
+
+    let value = '';
+    while (this.offset < this.sql.length) {
+      const char = this.advance();
+      if (char === closing) {
+        // A doubled closing quote is an escaped quote
+        if (this.sql[this.offset] === closing) {
+          value += this.advance();
+          continue;
+        }
+        return value;
+      }
+      value += char;
+    }
+
+    throw new SqlSyntaxError(`Unterminated ${description}`, start, this.offset - start.offset);
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.offset < this.sql.length) {
+      const char = this.sql[this.offset];
+
+      if (/\s/.test(char)) {
+        this.advance();
+      } else if (this.sql.startsWith('--', this.offset)) {
+        while (this.offset < this.sql.length && this.sql[this.offset] !== '\n') {
+          this.advance();
+        }
+      } else if (this.sql.startsWith('/*', this.offset)) {
+        const start = this.position();
+        const endIndex = this.sql.indexOf('*/', this.offset + 2);
+        if (endIndex === -1) {
+          throw new SqlSyntaxError('Unterminated comment', start, 2);
+        }
+        while (this.offset < endIndex + 2) {
+          this.advance();
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  private advance(): string {
+    const char = this.sql[this.offset++];
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    return char;
+  }
+
+  private position(): SourcePosition {
+    return { offset: this.offset, line: this.line, column: this.column };
+  }
+
+  private isDigit(char: string | undefined): boolean {
+    return char !== undefined && char >= '0' && char <= '9';
+  }
+
+  private isIdentifierStart(char: string): boolean {
+    return /[A-Za-z_]/.test(char);
+  }
+
+  private isIdentifierPart(char: string): boolean {
+    return /[A-Za-z0-9_]/.test(char);
+  }
+}
+
+export default new SqlLexer();
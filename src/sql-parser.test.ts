@@ -0,0 +1,137 @@
+import sqlParser from './sql-parser';
+import { SqlSyntaxError } from './sql-lexer';
+import { Expression, Operand, SelectStatement } from './sql-ast';
+
+function parseSelect(sql: string): SelectStatement {
+  return sqlParser.parseStatement(sql) as SelectStatement;
+}
+
+// A WHERE clause written out with every grouping in parentheses
+function groupingOf(where: string): string {
+  return write(parseSelect(`SELECT name FROM account WHERE ${where}`).where!);
+
+  function write(expression: Expression): string {
+    switch (expression.type) {
+      case 'Logical':
+        return `(${write(expression.left)} ${expression.operator} ${write(expression.right)})`;
+      case 'Not':
+        return `NOT ${write(expression.operand)}`;
+      case 'Comparison':
+        return `${operand(expression.left)} ${expression.operator} ${operand(expression.right)}`;
+      default:
+        return expression.type;
+    }
+  }
+
+  function operand(value: Operand): string {
+    return value.type === 'Column' ? value.name : JSON.stringify(value.type === 'Literal' ? value.value : null);
+  }
+}
+
+function syntaxErrorOf(sql: string): SqlSyntaxError {
+  try {
+    sqlParser.parse(sql);
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error(`Expected a syntax error for: ${sql}`);
+}
+
+describe('SqlParser', () => {
+  describe('operator precedence', () => {
+    it('binds AND tighter than OR', () => {
+      expect(groupingOf('a = 1 OR b = 2 AND c = 3')).toBe('(a = 1 OR (b = 2 AND c = 3))');
+      expect(groupingOf('a = 1 AND b = 2 OR c = 3')).toBe('((a = 1 AND b = 2) OR c = 3)');
+    });
+
+    it('binds NOT tighter than AND', () => {
+      expect(groupingOf('NOT a = 1 AND b = 2')).toBe('(NOT a = 1 AND b = 2)');
+    });
+
+    it('groups left to right', () => {
+      expect(groupingOf('a = 1 OR b = 2 OR c = 3')).toBe('((a = 1 OR b = 2) OR c = 3)');
+    });
+
+    it('lets parentheses override precedence', () => {
+      expect(groupingOf('(a = 1 OR b = 2) AND c = 3')).toBe('((a = 1 OR b = 2) AND c = 3)');
+      expect(groupingOf('NOT (a = 1 OR b = 2)')).toBe('NOT (a = 1 OR b = 2)');
+    });
+  });
+
+  describe('literals and identifiers', () => {
+    it('unescapes doubled quotes in strings', () => {
+      expect(sqlParser.parse("SELECT name FROM account WHERE name = 'O''Brien'").filter).toBe("name eq 'O''Brien'");
+      expect(groupingOf("name = 'It''s'")).toBe('name = "It\'s"');
+    });
+
+    it('reads bracketed and double-quoted identifiers', () => {
+      const query = sqlParser.parse('SELECT [name], "from" FROM [account] WHERE "select" = 1');
+      expect(query.entity).toBe('account');
+      expect(query.fields).toEqual(['name', 'from']);
+      expect(groupingOf('[where] = 1 AND "order" = 2')).toBe('(where = 1 AND order = 2)');
+    });
+
+    it('unescapes doubled closing characters in quoted identifiers', () => {
+      expect(sqlParser.parse('SELECT [a]]b], "c""d" FROM account').fields).toEqual(['a]b', 'c"d']);
+    });
+
+    it('reads NULL, TRUE, FALSE and negative numbers', () => {
+      const where = parseSelect('SELECT name FROM account WHERE a = NULL OR b = TRUE OR c = FALSE OR d = -1.5').where!;
+      expect(JSON.stringify(where)).toContain('"value":null');
+      expect(groupingOf('a = TRUE OR b = FALSE OR c = -1.5')).toBe('((a = true OR b = false) OR c = -1.5)');
+    });
+  });
+
+  describe('comments', () => {
+    it('skips line and block comments', () => {
+      const query = sqlParser.parse(
+        '-- all accounts\nSELECT name /* the name */ FROM account -- trailing\nWHERE /* x */ revenue > 5'
+      );
+      expect(query.entity).toBe('account');
+      expect(query.fields).toEqual(['name']);
+      expect(query.filter).toBe('revenue gt 5');
+    });
+
+    it('does not treat comment markers inside strings as comments', () => {
+      expect(sqlParser.parse("SELECT name FROM account WHERE name = '-- not /* a comment'").filter)
+        .toBe("name eq '-- not /* a comment'");
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('reports the line and column of the offending token', () => {
+      const error = syntaxErrorOf('SELECT name\nFROM account\nWHERE name = ');
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(14);
+      expect(error.message).toMatch(/at line 3, column 14$/);
+    });
+
+    it('points at an unexpected token after a complete statement', () => {
+      // "a" is the table alias, so "junk" is left over
+      const error = syntaxErrorOf('SELECT name FROM account a junk');
+      expect(error.message).toContain('Unexpected');
+      expect(error.line).toBe(1);
+      expect(error.column).toBe(28);
+    });
+
+    it('reports an unterminated string from its opening quote', () => {
+      const error = syntaxErrorOf("SELECT name FROM account\n  WHERE name = 'Contoso");
+      expect(error.message).toContain('Unterminated string literal');
+      expect(error.line).toBe(2);
+      expect(error.column).toBe(16);
+    });
+
+    it('reports an unterminated block comment', () => {
+      const error = syntaxErrorOf('SELECT name FROM account /* never closed');
+      expect(error.message).toContain('Unterminated comment');
+      expect(error.column).toBe(26);
+    });
+
+    it('rejects unsupported statements', () => {
+      expect(syntaxErrorOf('DROP TABLE account').message).toContain('Unsupported SQL operation');
+    });
+  });
+});
@@ -1,254 +1,1014 @@
 /**
  * SQL Parser for Dynamics CRM SQL Query Extension
- * 
+ *
  * Parses SQL-like syntax into Dynamics Web API compatible queries
  */
 
+import sqlLexer, { Token, SqlSyntaxError } from './sql-lexer';
+import odataFilterBuilder from './odata-filter';
+import {
+  Statement,
+  SelectStatement,
+  InsertStatement,
+  UpdateStatement,
+  DeleteStatement,
+  Expression,
+  Operand,
+  ColumnReference,
+  Literal,
+  TableReference,
+  OrderByItem,
+  Assignment,
+  ComparisonOperator,
+  JoinClause,
+  SelectItem,
+  AggregateCall,
+  AggregateFunction,
+  QueryFunctionExpression,
+  QueryFunctionName,
+  QUERY_FUNCTIONS,
+  collectColumns
+} from './sql-ast';
+
+interface ParsedJoin {
+  type: 'INNER' | 'LEFT';
+  entity: string;
+  alias: string;
+  // Column on the joined table
+  from: string;
+  // Alias and column of the table it joins to
+  toAlias: string;
+  to: string;
+  fields?: string[];
+}
+
+interface ParsedAggregate {
+  function: AggregateFunction;
+  // Undefined for COUNT(*)
+  field?: string;
+  // Set when aggregating a joined table's column
+  alias?: string;
+  distinct: boolean;
+  // Column name in the results
+  name: string;
+}
+
+interface ParsedGroupBy {
+  field: string;
+  alias?: string;
+  // Column name in the results
+  name: string;
+}
+
 interface ParsedQuery {
   operation: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
   entity: string;
+  alias?: string;
   fields?: string[];
+  joins?: ParsedJoin[];
   filter?: string;
-  orderBy?: { field: string; direction: string }[];
+  where?: Expression;
+  aggregates?: ParsedAggregate[];
+  groupBy?: ParsedGroupBy[];
+  // Applied to grouped rows; columns refer to result column names
+  having?: Expression;
+  // alias is only set when ordering by a joined table's column
+  orderBy?: { field: string; direction: string; alias?: string }[];
   limit?: number;
   values?: Record<string, any>;
 }
 
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>='];
+
+const AGGREGATE_FUNCTIONS = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
 class SqlParser {
+  private tokens: Token[] = [];
+  private current = 0;
+  // Aggregate calls are only valid in SELECT, HAVING and ORDER BY
+  private aggregatesAllowed = false;
+
   /**
    * Parse a SQL-like query string into a structured query object
    */
   parse(sql: string): ParsedQuery {
-    // Trim and ensure the query ends with a semicolon
-    sql = sql.trim();
-    if (!sql.endsWith(';')) {
-      sql += ';';
+    const statement = this.parseStatement(sql);
+
+    switch (statement.type) {
+      case 'Select':
+        return this.toSelectQuery(statement);
+      case 'Insert':
+        return this.toInsertQuery(statement);
+      case 'Update':
+        return this.toUpdateQuery(statement);
+      case 'Delete':
+        return this.toDeleteQuery(statement);
     }
-    
+  }
+
+  /**
+   * Parse a SQL-like query string into a syntax tree
+   */
+  parseStatement(sql: string): Statement {
+    this.tokens = sqlLexer.tokenize(sql);
+    this.current = 0;
+    this.aggregatesAllowed = false;
+
+    let statement: Statement;
+
     // Determine the operation type
-    if (sql.toUpperCase().startsWith('SELECT')) {
-      return this.parseSelect(sql);
-    } else if (sql.toUpperCase().startsWith('INSERT')) {
-      return this.parseInsert(sql);
-    } else if (sql.toUpperCase().startsWith('UPDATE')) {
-      return this.parseUpdate(sql);
-    } else if (sql.toUpperCase().startsWith('DELETE')) {
-      return this.parseDelete(sql);
+    if (this.matchKeyword('SELECT')) {
+      statement = this.parseSelect();
+    } else if (this.matchKeyword('INSERT')) {
+      statement = this.parseInsert();
+    } else if (this.matchKeyword('UPDATE')) {
+      statement = this.parseUpdate();
+    } else if (this.matchKeyword('DELETE')) {
+      statement = this.parseDelete();
+    } else {
+      throw this.error('Unsupported SQL operation. Only SELECT, INSERT, UPDATE, and DELETE are supported', this.peek());
+    }
+
+    // Allow a single trailing semicolon
+    this.matchPunctuation(';');
+
+    if (this.peek().type !== 'eof') {
+      throw this.error(`Unexpected ${this.describe(this.peek())}`, this.peek());
+    }
+
+    return statement;
+  }
+
+  /**
+   * Parse a SELECT statement
+   */
+  private parseSelect(): SelectStatement {
+    const columns: SelectItem[] = [];
+
+    if (!this.matchOperator('*')) {
+      do {
+        columns.push(this.isAggregateCall() ? this.parseAggregate(true) : this.parseColumn());
+      } while (this.matchPunctuation(','));
+    }
+
+    this.expectKeyword('FROM');
+    const from = this.parseTable(true);
+
+    const statement: SelectStatement = {
+      type: 'Select',
+      columns,
+      from,
+      joins: this.parseJoins(),
+      groupBy: [],
+      orderBy: []
+    };
+
+    if (this.matchKeyword('WHERE')) {
+      statement.where = this.parseExpression();
+    }
+
+    if (this.matchKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do {
+        statement.groupBy.push(this.parseColumn());
+      } while (this.matchPunctuation(','));
+    }
+
+    this.aggregatesAllowed = true;
+
+    if (this.matchKeyword('HAVING')) {
+      statement.having = this.parseExpression();
+    }
+
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      statement.orderBy = this.parseOrderBy();
+    }
+
+    this.aggregatesAllowed = false;
+
+    if (this.matchKeyword('LIMIT')) {
+      const token = this.peek();
+      if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+        throw this.error(`Expected a whole number after LIMIT but found ${this.describe(token)}`, token);
+      }
+      this.advance();
+      statement.limit = parseInt(token.value, 10);
+    }
+
+    return statement;
+  }
+
+  /**
+   * Parse [INNER] JOIN and LEFT [OUTER] JOIN clauses
+   */
+  private parseJoins(): JoinClause[] {
+    const joins: JoinClause[] = [];
+
+    while (true) {
+      let type: 'INNER' | 'LEFT';
+      if (this.matchKeyword('JOIN')) {
+        type = 'INNER';
+      } else if (this.matchKeyword('INNER')) {
+        this.expectKeyword('JOIN');
+        type = 'INNER';
+      } else if (this.matchKeyword('LEFT')) {
+        this.matchKeyword('OUTER');
+        this.expectKeyword('JOIN');
+        type = 'LEFT';
+      } else {
+        return joins;
+      }
+
+      const table = this.parseTable(true);
+      this.expectKeyword('ON');
+      const left = this.parseColumn();
+      this.expectOperator('=');
+      const right = this.parseColumn();
+
+      joins.push({ type, table, on: { left, right } });
+    }
+  }
+
+  /**
+   * Parse an INSERT statement
+   */
+  private parseInsert(): InsertStatement {
+    this.expectKeyword('INTO');
+    const table = this.parseTable();
+
+    this.expectPunctuation('(');
+    const columns: ColumnReference[] = [];
+    do {
+      columns.push(this.parseColumn());
+    } while (this.matchPunctuation(','));
+    this.expectPunctuation(')');
+
+    const valuesToken = this.expectKeyword('VALUES');
+    this.expectPunctuation('(');
+    const values: Literal[] = [];
+    do {
+      values.push(this.parseLiteral());
+    } while (this.matchPunctuation(','));
+    this.expectPunctuation(')');
+
+    if (columns.length !== values.length) {
+      throw this.error(`INSERT lists ${columns.length} columns but ${values.length} values`, valuesToken);
+    }
+
+    return { type: 'Insert', table, columns, values };
+  }
+
+  /**
+   * Parse an UPDATE statement
+   */
+  private parseUpdate(): UpdateStatement {
+    const table = this.parseTable();
+    this.expectKeyword('SET');
+
+    const assignments: Assignment[] = [];
+    do {
+      const column = this.parseColumn();
+      this.expectOperator('=');
+      assignments.push({ column, value: this.parseLiteral() });
+    } while (this.matchPunctuation(','));
+
+    const statement: UpdateStatement = { type: 'Update', table, assignments };
+
+    if (this.matchKeyword('WHERE')) {
+      statement.where = this.parseExpression();
+    }
+
+    return statement;
+  }
+
+  /**
+   * Parse a DELETE statement
+   */
+  private parseDelete(): DeleteStatement {
+    this.expectKeyword('FROM');
+    const table = this.parseTable();
+
+    const statement: DeleteStatement = { type: 'Delete', table };
+
+    if (this.matchKeyword('WHERE')) {
+      statement.where = this.parseExpression();
+    }
+
+    return statement;
+  }
+
+  /**
+   * Parse a boolean expression; OR binds looser than AND
+   */
+  private parseExpression(): Expression {
+    let left = this.parseAnd();
+
+    while (this.matchKeyword('OR')) {
+      left = { type: 'Logical', operator: 'OR', left, right: this.parseAnd() };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+
+    while (this.matchKeyword('AND')) {
+      left = { type: 'Logical', operator: 'AND', left, right: this.parseNot() };
+    }
+
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.matchKeyword('NOT')) {
+      return { type: 'Not', operand: this.parseNot() };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expression {
+    if (this.matchPunctuation('(')) {
+      const expression = this.parseExpression();
+      this.expectPunctuation(')');
+      return expression;
+    }
+
+    const left = this.parseOperand();
+
+    if (this.matchKeyword('IS')) {
+      const negated = this.matchKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { type: 'IsNull', operand: this.requireColumn(left, 'IS NULL'), negated };
+    }
+
+    // NOT LIKE, NOT IN and NOT BETWEEN
+    const notToken = this.peek();
+    const negated = this.matchKeyword('NOT');
+
+    if (this.matchKeyword('LIKE')) {
+      const token = this.peek();
+      if (token.type !== 'string') {
+        throw this.error(`Expected a string pattern after LIKE but found ${this.describe(token)}`, token);
+      }
+      this.advance();
+      return { type: 'Like', operand: this.requireColumn(left, 'LIKE'), pattern: token.value, negated };
+    }
+
+    if (this.matchKeyword('IN')) {
+      this.expectPunctuation('(');
+      const values: Literal[] = [];
+      do {
+        values.push(this.parseLiteral());
+      } while (this.matchPunctuation(','));
+      this.expectPunctuation(')');
+      return { type: 'In', operand: this.requireColumn(left, 'IN'), values, negated };
+    }
+
+    if (this.matchKeyword('BETWEEN')) {
+      const lower = this.parseLiteral();
+      this.expectKeyword('AND');
+      const upper = this.parseLiteral();
+      return { type: 'Between', operand: this.requireColumn(left, 'BETWEEN'), lower, upper, negated };
+    }
+
+    if (negated) {
+      throw this.error(`Expected LIKE, IN or BETWEEN after NOT but found ${this.describe(this.peek())}`, notToken);
+    }
+
+    const token = this.peek();
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.advance();
+      if (this.isQueryFunctionCall()) {
+        return this.parseQueryFunction(left, token);
+      }
+      return {
+        type: 'Comparison',
+        operator: token.value as ComparisonOperator,
+        left,
+        right: this.parseOperand()
+      };
+    }
+
+    throw this.error(`Expected a comparison operator but found ${this.describe(token)}`, token);
+  }
+
+  private parseOperand(): Operand {
+    const token = this.peek();
+    if (this.isAggregateCall()) {
+      if (!this.aggregatesAllowed) {
+        throw this.error('Aggregate functions are only allowed in SELECT, HAVING and ORDER BY', token);
+      }
+      return this.parseAggregate(false);
+    }
+    if (token.type === 'identifier') {
+      return this.parseColumn();
+    }
+    return this.parseLiteral();
+  }
+
+  private isAggregateCall(): boolean {
+    const token = this.peek();
+    const next = this.peek(1);
+    return token.type === 'identifier' &&
+      AGGREGATE_FUNCTIONS.includes(token.value.toUpperCase()) &&
+      next.type === 'punctuation' && next.value === '(';
+  }
+
+  private isQueryFunctionCall(): boolean {
+    const token = this.peek();
+    const next = this.peek(1);
+    return token.type === 'identifier' &&
+      token.value.toUpperCase() in QUERY_FUNCTIONS &&
+      next.type === 'punctuation' && next.value === '(';
+  }
+
+  /**
+   * Parse the right-hand side of column = LAST_X_DAYS(7), column <> CURRENT_USER(), etc.
+   */
+  private parseQueryFunction(left: Operand, operatorToken: Token): QueryFunctionExpression {
+    const token = this.advance();
+    const func = token.value.toUpperCase() as QueryFunctionName;
+    const definition = QUERY_FUNCTIONS[func];
+
+    if (operatorToken.value !== '=' && operatorToken.value !== '<>') {
+      throw this.error(`${func}() can only be compared with = or <>`, operatorToken);
+    }
+
+    this.expectPunctuation('(');
+    const expression: QueryFunctionExpression = {
+      type: 'Function',
+      operand: this.requireColumn(left, `${func}()`),
+      function: func,
+      negated: operatorToken.value === '<>',
+      position: token.start
+    };
+
+    if (definition.argument) {
+      const argumentToken = this.peek();
+      const argument = this.parseLiteral();
+      if (typeof argument.value !== definition.argument) {
+        throw this.error(`${func}() expects a ${definition.argument} argument`, argumentToken);
+      }
+      expression.argument = argument;
+    }
+
+    const closing = this.peek();
+    if (!this.matchPunctuation(')')) {
+      const expected = definition.argument ? 'one argument' : 'no arguments';
+      throw this.error(`${func}() takes ${expected}`, closing);
+    }
+
+    return expression;
+  }
+
+  /**
+   * Parse COUNT(*), COUNT([DISTINCT] column), SUM(column), etc.
+   */
+  private parseAggregate(allowAlias: boolean): AggregateCall {
+    const token = this.advance();
+    const func = token.value.toUpperCase() as AggregateFunction;
+    this.expectPunctuation('(');
+
+    const aggregate: AggregateCall = {
+      type: 'Aggregate',
+      function: func,
+      distinct: this.matchKeyword('DISTINCT'),
+      position: token.start
+    };
+
+    if (func === 'COUNT' && !aggregate.distinct && this.matchOperator('*')) {
+      // COUNT(*) has no argument
     } else {
-      throw new Error('Unsupported SQL operation. Only SELECT, INSERT, UPDATE, and DELETE are supported.');
+      aggregate.argument = this.parseColumn();
+    }
+
+    if (aggregate.distinct && func !== 'COUNT') {
+      throw this.error('DISTINCT is only supported in COUNT', token);
+    }
+
+    this.expectPunctuation(')');
+
+    if (allowAlias) {
+      if (this.matchKeyword('AS')) {
+        aggregate.alias = this.expectIdentifier('column alias').value;
+      } else if (this.peek().type === 'identifier') {
+        aggregate.alias = this.advance().value;
+      }
+    }
+
+    return aggregate;
+  }
+
+  private parseLiteral(): Literal {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'string':
+        this.advance();
+        return { type: 'Literal', value: token.value, position: token.start };
+      case 'number':
+        this.advance();
+        return { type: 'Literal', value: Number(token.value), position: token.start };
+      case 'operator':
+        // Negative numbers
+        if (token.value === '-' && this.peek(1).type === 'number') {
+          this.advance();
+          return { type: 'Literal', value: -Number(this.advance().value), position: token.start };
+        }
+        break;
+      case 'keyword':
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          this.advance();
+          return { type: 'Literal', value: token.value === 'TRUE', position: token.start };
+        }
+        if (token.value === 'NULL') {
+          this.advance();
+          return { type: 'Literal', value: null, position: token.start };
+        }
+        break;
+    }
+
+    throw this.error(`Expected a value but found ${this.describe(token)}`, token);
+  }
+
+  private parseColumn(): ColumnReference {
+    const token = this.expectIdentifier('column name');
+
+    // Qualified column: table.column
+    if (this.matchPunctuation('.')) {
+      const column = this.expectIdentifier('column name');
+      return { type: 'Column', table: token.value, name: column.value, position: token.start };
+    }
+
+    return { type: 'Column', name: token.value, position: token.start };
+  }
+
+  private parseTable(allowAlias = false): TableReference {
+    const token = this.expectIdentifier('table name');
+    const table: TableReference = { name: token.value, position: token.start };
+
+    if (allowAlias) {
+      if (this.matchKeyword('AS')) {
+        table.alias = this.expectIdentifier('table alias').value;
+      } else if (this.peek().type === 'identifier') {
+        table.alias = this.advance().value;
+      }
     }
+
+    return table;
   }
-  
+
   /**
-   * Parse a SELECT query
+   * Parse ORDER BY clause
    */
-  private parseSelect(sql: string): ParsedQuery {
-    // Basic regex pattern for SELECT queries
-    const pattern = /SELECT\s+(.*?)\s+FROM\s+(\w+)(?:\s+WHERE\s+(.*?))?(?:\s+ORDER\s+BY\s+(.*?))?(?:\s+LIMIT\s+(\d+))?;/i;
-    const match = sql.match(pattern);
-    
-    if (!match) {
-      throw new Error('Invalid SELECT query format');
-    }
-    
-    const [, fieldsStr, entity, whereClause, orderByClause, limitStr] = match;
-    
-    // Parse fields
-    const fields = fieldsStr.split(',').map(f => f.trim());
-    
+  private parseOrderBy(): OrderByItem[] {
+    const items: OrderByItem[] = [];
+
+    do {
+      const column = this.isAggregateCall() ? this.parseAggregate(false) : this.parseColumn();
+      let direction: 'asc' | 'desc' = 'asc';
+      if (this.matchKeyword('DESC')) {
+        direction = 'desc';
+      } else {
+        this.matchKeyword('ASC');
+      }
+      items.push({ column, direction });
+    } while (this.matchPunctuation(','));
+
+    return items;
+  }
+
+  private requireColumn(operand: Operand, context: string): ColumnReference {
+    if (operand.type === 'Aggregate') {
+      throw new SqlSyntaxError(`${context} cannot be applied to an aggregate`, operand.position);
+    }
+    if (operand.type !== 'Column') {
+      throw new SqlSyntaxError(`${context} must be applied to a column`, operand.position);
+    }
+    return operand;
+  }
+
+  private toSelectQuery(statement: SelectStatement): ParsedQuery {
+    const baseAlias = statement.from.alias || statement.from.name;
+    const joins = this.toJoins(statement, baseAlias);
+    const joinsByAlias = new Map(joins.map(join => [join.alias, join]));
+
+    // Resolve a column to the alias of a joined table, or undefined for the base table
+    const resolveAlias = (column: ColumnReference): string | undefined => {
+      if (!column.table || column.table === baseAlias) {
+        return undefined;
+      }
+      if (!joinsByAlias.has(column.table)) {
+        throw new SqlSyntaxError(`Unknown table or alias '${column.table}'`, column.position, column.table.length);
+      }
+      return column.table;
+    };
+
     // Create the base query object
     const query: ParsedQuery = {
       operation: 'SELECT',
-      entity,
-      fields
+      entity: statement.from.name
     };
-    
-    // Add WHERE clause if present
-    if (whereClause) {
-      query.filter = this.translateWhereClause(whereClause);
-    }
-    
-    // Add ORDER BY if present
-    if (orderByClause) {
-      query.orderBy = this.parseOrderBy(orderByClause);
-    }
-    
-    // Add LIMIT if present
-    if (limitStr) {
-      query.limit = parseInt(limitStr, 10);
-    }
-    
+
+    if (statement.from.alias) {
+      query.alias = statement.from.alias;
+    }
+
+    const plainColumns = statement.columns.filter((item): item is ColumnReference => item.type === 'Column');
+
+    if (statement.columns.length > 0) {
+      query.fields = [];
+      joins.forEach(join => join.fields = []);
+
+      plainColumns.forEach(column => {
+        const alias = resolveAlias(column);
+        if (alias) {
+          joinsByAlias.get(alias)!.fields!.push(column.name);
+        } else {
+          query.fields!.push(column.name);
+        }
+      });
+    }
+
+    if (joins.length > 0) {
+      query.joins = joins;
+    }
+
+    if (statement.where) {
+      collectColumns(statement.where).forEach(resolveAlias);
+      query.where = statement.where;
+      // Joined filters depend on how the query is executed, so DynamicsApi builds them
+      if (joins.length === 0) {
+        query.filter = this.buildFilter(statement.where);
+      }
+    }
+
+    const isAggregate = statement.groupBy.length > 0 ||
+      statement.having !== undefined ||
+      statement.columns.some(item => item.type === 'Aggregate');
+
+    if (isAggregate) {
+      this.applyAggregation(query, statement, resolveAlias);
+    } else {
+      statement.orderBy.forEach(item => {
+        if (item.column.type === 'Aggregate') {
+          throw new SqlSyntaxError('ORDER BY an aggregate requires GROUP BY or aggregate columns', item.column.position);
+        }
+      });
+
+      if (statement.orderBy.length > 0) {
+        query.orderBy = statement.orderBy.map(item => {
+          const alias = resolveAlias(item.column as ColumnReference);
+          return {
+            field: (item.column as ColumnReference).name,
+            direction: item.direction,
+            ...(alias ? { alias } : {})
+          };
+        });
+      }
+    }
+
+    if (statement.limit !== undefined) {
+      query.limit = statement.limit;
+    }
+
     return query;
   }
-  
+
   /**
-   * Parse an INSERT query
+   * Fill in aggregates, GROUP BY and HAVING; ORDER BY and HAVING are
+   * rewritten to refer to result column names
    */
-  private parseInsert(sql: string): ParsedQuery {
-    // Basic regex pattern for INSERT queries
-    const pattern = /INSERT\s+INTO\s+(\w+)\s+\((.*?)\)\s+VALUES\s+\((.*?)\);/i;
-    const match = sql.match(pattern);
-    
-    if (!match) {
-      throw new Error('Invalid INSERT query format');
-    }
-    
-    const [, entity, columnsStr, valuesStr] = match;
-    
-    // Parse columns and values
-    const columns = columnsStr.split(',').map(c => c.trim());
-    const values = valuesStr.split(',').map(v => {
-      const trimmed = v.trim();
-      // Handle string literals
-      if (trimmed.startsWith("'") && trimmed.endsWith("'")) {
-        return trimmed.substring(1, trimmed.length - 1);
-      }
-      // Handle numbers
-      if (!isNaN(Number(trimmed))) {
-        return Number(trimmed);
-      }
-      // Handle booleans
-      if (trimmed.toLowerCase() === 'true') return true;
-      if (trimmed.toLowerCase() === 'false') return false;
-      // Handle null
-      if (trimmed.toLowerCase() === 'null') return null;
-      
-      return trimmed;
+  private applyAggregation(
+    query: ParsedQuery,
+    statement: SelectStatement,
+    resolveAlias: (column: ColumnReference) => string | undefined
+  ): void {
+    const groupBy: ParsedGroupBy[] = statement.groupBy.map(column => {
+      const alias = resolveAlias(column);
+      return {
+        field: column.name,
+        ...(alias ? { alias } : {}),
+        // Result names cannot contain dots, so joined columns use alias_field
+        name: alias ? `${alias}_${column.name}` : column.name
+      };
     });
-    
-    // Create values object
-    const valuesObj: Record<string, any> = {};
-    columns.forEach((col, index) => {
-      valuesObj[col] = values[index];
+
+    const findGroup = (column: ColumnReference): ParsedGroupBy | undefined => {
+      const alias = resolveAlias(column);
+      return groupBy.find(group => group.field === column.name && group.alias === alias);
+    };
+
+    const aggregates: ParsedAggregate[] = [];
+    const usedNames = new Set(groupBy.map(group => group.name));
+
+    statement.columns.forEach(item => {
+      if (item.type === 'Column') {
+        if (!findGroup(item)) {
+          throw new SqlSyntaxError(
+            `Column '${item.name}' must appear in GROUP BY or be used in an aggregate function`,
+            item.position,
+            item.name.length
+          );
+        }
+        return;
+      }
+
+      const aggregate = this.toAggregate(item, resolveAlias);
+      if (usedNames.has(aggregate.name)) {
+        throw new SqlSyntaxError(`Duplicate result column '${aggregate.name}'; add an alias with AS`, item.position);
+      }
+      usedNames.add(aggregate.name);
+      aggregates.push(aggregate);
     });
-    
+
+    if (statement.columns.length === 0) {
+      throw new SqlSyntaxError('SELECT * cannot be used with GROUP BY or aggregates', statement.from.position);
+    }
+
+    // Map an operand of HAVING or ORDER BY to a result column name
+    const resolveResultName = (operand: ColumnReference | AggregateCall): string => {
+      if (operand.type === 'Aggregate') {
+        const match = aggregates.find(aggregate => this.sameAggregate(aggregate, this.toAggregate(operand, resolveAlias)));
+        if (!match) {
+          throw new SqlSyntaxError('Aggregates in HAVING and ORDER BY must also appear in the SELECT list', operand.position);
+        }
+        return match.name;
+      }
+
+      const aggregateMatch = !operand.table && aggregates.find(aggregate => aggregate.name === operand.name);
+      if (aggregateMatch) {
+        return aggregateMatch.name;
+      }
+
+      const group = findGroup(operand);
+      if (!group) {
+        throw new SqlSyntaxError(
+          `Column '${operand.name}' must appear in GROUP BY or be an aggregate alias`,
+          operand.position,
+          operand.name.length
+        );
+      }
+      return group.name;
+    };
+
+    query.aggregates = aggregates;
+    if (groupBy.length > 0) {
+      query.groupBy = groupBy;
+    }
+
+    if (statement.having) {
+      query.having = this.mapOperands(statement.having, operand => {
+        if (operand.type === 'Literal') {
+          return operand;
+        }
+        return { type: 'Column', name: resolveResultName(operand), position: operand.position };
+      });
+    }
+
+    if (statement.orderBy.length > 0) {
+      query.orderBy = statement.orderBy.map(item => ({
+        field: resolveResultName(item.column),
+        direction: item.direction
+      }));
+    }
+  }
+
+  private toAggregate(
+    call: AggregateCall,
+    resolveAlias: (column: ColumnReference) => string | undefined
+  ): ParsedAggregate {
+    const alias = call.argument ? resolveAlias(call.argument) : undefined;
+    const defaultName = call.argument
+      ? [call.function, alias, call.argument.name].filter(Boolean).join('_').toLowerCase()
+      : 'count';
+
     return {
-      operation: 'INSERT',
-      entity,
-      values: valuesObj
+      function: call.function,
+      ...(call.argument ? { field: call.argument.name } : {}),
+      ...(alias ? { alias } : {}),
+      distinct: call.distinct,
+      name: call.alias || defaultName
     };
   }
-  
-  /**
-   * Parse an UPDATE query
-   */
-  private parseUpdate(sql: string): ParsedQuery {
-    // Basic regex pattern for UPDATE queries
-    const pattern = /UPDATE\s+(\w+)\s+SET\s+(.*?)(?:\s+WHERE\s+(.*?))?;/i;
-    const match = sql.match(pattern);
-    
-    if (!match) {
-      throw new Error('Invalid UPDATE query format');
-    }
-    
-    const [, entity, setClause, whereClause] = match;
-    
-    // Parse SET clause
-    const setValues: Record<string, any> = {};
-    setClause.split(',').forEach(assignment => {
-      const [column, valueStr] = assignment.split('=').map(part => part.trim());
-      
-      // Handle string literals
-      if (valueStr.startsWith("'") && valueStr.endsWith("'")) {
-        setValues[column] = valueStr.substring(1, valueStr.length - 1);
-      } 
-      // Handle numbers
-      else if (!isNaN(Number(valueStr))) {
-        setValues[column] = Number(valueStr);
-      }
-      // Handle booleans
-      else if (valueStr.toLowerCase() === 'true') {
-        setValues[column] = true;
-      }
-      else if (valueStr.toLowerCase() === 'false') {
-        setValues[column] = false;
-      }
-      // Handle null
-      else if (valueStr.toLowerCase() === 'null') {
-        setValues[column] = null;
-      }
-      else {
-        setValues[column] = valueStr;
+
+  private sameAggregate(a: ParsedAggregate, b: ParsedAggregate): boolean {
+    return a.function === b.function &&
+      a.field === b.field &&
+      a.alias === b.alias &&
+      a.distinct === b.distinct;
+  }
+
+  // Rebuild an expression with each operand replaced
+  private mapOperands(expression: Expression, map: (operand: Operand) => Operand): Expression {
+    switch (expression.type) {
+      case 'Logical':
+        return {
+          ...expression,
+          left: this.mapOperands(expression.left, map),
+          right: this.mapOperands(expression.right, map)
+        };
+      case 'Comparison':
+        return { ...expression, left: map(expression.left), right: map(expression.right) };
+      case 'Like':
+      case 'In':
+      case 'Between':
+      case 'IsNull':
+      case 'Function':
+        return { ...expression, operand: map(expression.operand) as ColumnReference };
+      case 'Not':
+        return { ...expression, operand: this.mapOperands(expression.operand, map) };
+    }
+  }
+
+  private toJoins(statement: SelectStatement, baseAlias: string): ParsedJoin[] {
+    const knownAliases = new Set([baseAlias]);
+
+    return statement.joins.map(join => {
+      const alias = join.table.alias || join.table.name;
+      if (knownAliases.has(alias)) {
+        throw new SqlSyntaxError(`Duplicate table alias '${alias}'`, join.table.position, join.table.name.length);
+      }
+
+      // One side of ON must be the joined table, the other a table joined earlier
+      const { left, right } = join.on;
+      const [joined, parent] = left.table === alias ? [left, right] : [right, left];
+
+      if (joined.table !== alias) {
+        throw new SqlSyntaxError(`JOIN condition must reference '${alias}'`, left.position);
+      }
+      if (!parent.table || !knownAliases.has(parent.table)) {
+        throw new SqlSyntaxError(
+          'JOIN condition must compare with a column of a table joined earlier, e.g. a.accountid = c.parentcustomerid',
+          parent.position
+        );
       }
+
+      knownAliases.add(alias);
+
+      return {
+        type: join.type,
+        entity: join.table.name,
+        alias,
+        from: joined.name,
+        toAlias: parent.table,
+        to: parent.name
+      };
     });
-    
-    // Create the query object
+  }
+
+  private toInsertQuery(statement: InsertStatement): ParsedQuery {
+    const values: Record<string, any> = {};
+    statement.columns.forEach((column, index) => {
+      values[column.name] = statement.values[index].value;
+    });
+
+    return {
+      operation: 'INSERT',
+      entity: statement.table.name,
+      values
+    };
+  }
+
+  private toUpdateQuery(statement: UpdateStatement): ParsedQuery {
+    const values: Record<string, any> = {};
+    statement.assignments.forEach(assignment => {
+      values[assignment.column.name] = assignment.value.value;
+    });
+
     const query: ParsedQuery = {
       operation: 'UPDATE',
-      entity,
-      values: setValues
+      entity: statement.table.name,
+      values
     };
-    
-    // Add WHERE clause if present
-    if (whereClause) {
-      query.filter = this.translateWhereClause(whereClause);
-    }
-    
+
+    this.applyWhere(query, statement.where);
+
     return query;
   }
-  
-  /**
-   * Parse a DELETE query
-   */
-  private parseDelete(sql: string): ParsedQuery {
-    // Basic regex pattern for DELETE queries
-    const pattern = /DELETE\s+FROM\s+(\w+)(?:\s+WHERE\s+(.*?))?;/i;
-    const match = sql.match(pattern);
-    
-    if (!match) {
-      throw new Error('Invalid DELETE query format');
-    }
-    
-    const [, entity, whereClause] = match;
-    
-    // Create the query object
+
+  private toDeleteQuery(statement: DeleteStatement): ParsedQuery {
     const query: ParsedQuery = {
       operation: 'DELETE',
-      entity
+      entity: statement.table.name
     };
-    
-    // Add WHERE clause if present
-    if (whereClause) {
-      query.filter = this.translateWhereClause(whereClause);
-    }
-    
+
+    this.applyWhere(query, statement.where);
+
     return query;
   }
-  
-  /**
-   * Translate SQL WHERE clause to OData filter
-   */
-  private translateWhereClause(whereClause: string): string {
-    // Replace SQL operators with OData operators
-    return whereClause
-      .replace(/\s+AND\s+/gi, ' and ')
-      .replace(/\s+OR\s+/gi, ' or ')
-      .replace(/\s*=\s*/g, ' eq ')
-      .replace(/\s*<>\s*/g, ' ne ')
-      .replace(/\s*>\s*/g, ' gt ')
-      .replace(/\s*<\s*/g, ' lt ')
-      .replace(/\s*>=\s*/g, ' ge ')
-      .replace(/\s*<=\s*/g, ' le ')
-      .replace(/\s+LIKE\s+/gi, ' contains ')
-      .replace(/\s+IS NULL\s*/gi, ' eq null')
-      .replace(/\s+IS NOT NULL\s*/gi, ' ne null');
-  }
-  
-  /**
-   * Parse ORDER BY clause
-   */
-  private parseOrderBy(orderByClause: string): { field: string; direction: string }[] {
-    return orderByClause.split(',').map(item => {
-      const parts = item.trim().split(/\s+/);
-      const field = parts[0];
-      const direction = (parts[1] || 'ASC').toUpperCase() === 'DESC' ? 'desc' : 'asc';
-      
-      return { field, direction };
-    });
+
+  private applyWhere(query: ParsedQuery, where: Expression | undefined): void {
+    if (where) {
+      query.where = where;
+      query.filter = this.buildFilter(where);
+    }
+  }
+
+  // Some conditions (e.g. LIKE 'a%b') only run as FetchXML, so an OData filter is optional
+  private buildFilter(where: Expression): string | undefined {
+    try {
+      return odataFilterBuilder.build(where);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  // Token helpers
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.current + ahead, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.current++;
+    }
+    return token;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'keyword' && token.value === keyword) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): Token {
+    const token = this.peek();
+    if (!this.matchKeyword(keyword)) {
+      throw this.error(`Expected ${keyword} but found ${this.describe(token)}`, token);
+    }
+    return token;
+  }
+
+  private expectPunctuation(value: string): Token {
+    const token = this.peek();
+    if (!this.matchPunctuation(value)) {
+      throw this.error(`Expected '${value}' but found ${this.describe(token)}`, token);
+    }
+    return token;
+  }
+
+  private expectOperator(value: string): Token {
+    const token = this.peek();
+    if (!this.matchOperator(value)) {
+      throw this.error(`Expected '${value}' but found ${this.describe(token)}`, token);
+    }
+    return token;
+  }
+
+  private expectIdentifier(description: string): Token {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw this.error(`Expected ${description} but found ${this.describe(token)}`, token);
+    }
+    return this.advance();
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof':
+        return 'end of query';
+      case 'string':
+        return `string '${token.value}'`;
+      case 'keyword':
+        return `keyword ${token.value}`;
+      default:
+        return `'${token.value}'`;
+    }
+  }
+
+  private error(message: string, token: Token): SqlSyntaxError {
+    return new SqlSyntaxError(message, token.start, Math.max(1, token.end.offset - token.start.offset));
   }
 }
 
 // Export a singleton instance
 const sqlParser = new SqlParser();
 export default sqlParser;
-export type { ParsedQuery }; 
\ No newline at end of file
+export type { ParsedQuery, ParsedJoin, ParsedAggregate, ParsedGroupBy };
+export { SqlSyntaxError };
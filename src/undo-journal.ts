@@ -0,0 +1,76 @@
+/**
+ * Undo Journal for Dynamics CRM Toolkit
+ *
+ * Keeps the records UPDATE and DELETE statements changed, as they were
+ * before the change, so the change can be reverted later
+ */
+
+export interface JournalEntry {
+  id: string;
+  orgUrl: string;
+  operation: 'UPDATE' | 'DELETE';
+  entity: string;
+  // The values an UPDATE set
+  values?: Record<string, any>;
+  // Every affected record as it was before the change, with lookup annotations
+  records: any[];
+  executedOn: number;
+  revertedOn?: number;
+}
+
+const STORAGE_KEY = 'undoJournal';
+
+// Older entries are dropped to stay within extension storage
+const MAX_ENTRIES = 50;
+
+export class UndoJournal {
+  /**
+   * Record a change before it is made
+   */
+  async add(entry: Omit<JournalEntry, 'id' | 'executedOn'>): Promise<JournalEntry> {
+    const added: JournalEntry = { ...entry, id: crypto.randomUUID(), executedOn: Date.now() };
+
+    const entries = await this.getEntries();
+    await this.save([added, ...entries].slice(0, MAX_ENTRIES));
+
+    return added;
+  }
+
+  /**
+   * Get the recorded changes, newest first
+   */
+  async getEntries(): Promise<JournalEntry[]> {
+    const storage = await chrome.storage.local.get([STORAGE_KEY]);
+    return storage[STORAGE_KEY] || [];
+  }
+
+  async getEntry(id: string): Promise<JournalEntry | undefined> {
+    return (await this.getEntries()).find(entry => entry.id === id);
+  }
+
+  async markReverted(id: string): Promise<void> {
+    const entries = await this.getEntries();
+    await this.save(entries.map(entry => entry.id === id ? { ...entry, revertedOn: Date.now() } : entry));
+  }
+
+  // Keep only the records that can still be reverted
+  async updateRecords(id: string, records: any[]): Promise<void> {
+    const entries = await this.getEntries();
+    await this.save(entries.map(entry => entry.id === id ? { ...entry, records } : entry));
+  }
+
+  async remove(id: string): Promise<void> {
+    const entries = await this.getEntries();
+    await this.save(entries.filter(entry => entry.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_KEY);
+  }
+
+  private async save(entries: JournalEntry[]): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: entries });
+  }
+}
+
+export default new UndoJournal();
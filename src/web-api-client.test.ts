@@ -0,0 +1,99 @@
+import { WebApiClient, WebApiError } from './web-api-client';
+
+const URL = 'https://contoso.crm.dynamics.com/api/data/v9.2/accounts';
+
+function response(status: number, headers: Record<string, string> = {}, body = ''): Response {
+  return new Response(status === 204 ? null : body, { status, headers });
+}
+
+describe('WebApiClient', () => {
+  let client: WebApiClient;
+  let fetchMock: jest.Mock;
+  let notices: string[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    fetchMock = jest.fn();
+    globalThis.fetch = fetchMock;
+
+    client = new WebApiClient();
+    notices = [];
+    client.setNoticeListener(message => notices.push(message));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('waits as long as Retry-After asks before retrying', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(429, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(response(204));
+
+    const request = client.request(URL);
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect((await request).status).toBe(204);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(notices).toEqual(['Web API returned 429, retrying in 3s']);
+  });
+
+  it('reads Retry-After given as an HTTP date', async () => {
+    jest.setSystemTime(new Date('2024-01-31T12:00:00Z'));
+    fetchMock
+      .mockResolvedValueOnce(response(503, { 'Retry-After': 'Wed, 31 Jan 2024 12:00:05 GMT' }))
+      .mockResolvedValueOnce(response(204));
+
+    const request = client.request(URL);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect((await request).status).toBe(204);
+    expect(notices).toEqual(['Web API returned 503, retrying in 5s']);
+  });
+
+  it('backs off exponentially without Retry-After', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(204));
+
+    const request = client.request(URL);
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+    expect((await request).status).toBe(204);
+    expect(notices).toEqual([
+      'Web API returned 503, retrying in 1s',
+      'Web API returned 503, retrying in 2s',
+      'Web API returned 503, retrying in 4s'
+    ]);
+  });
+
+  it('gives up after 5 attempts with the last error', async () => {
+    const body = '{"error":{"code":"0x80072322","message":"Number of requests exceeded the limit"}}';
+    fetchMock.mockImplementation(async () => response(429, { 'Retry-After': '1' }, body));
+
+    const request = client.request(URL);
+    const failed = expect(request).rejects.toMatchObject({
+      name: 'WebApiError',
+      status: 429,
+      code: '0x80072322',
+      message: 'Number of requests exceeded the limit'
+    });
+    await jest.advanceTimersByTimeAsync(4 * 1000);
+    await failed;
+
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(notices).toHaveLength(4);
+  });
+
+  it('does not retry other failures', async () => {
+    fetchMock.mockResolvedValueOnce(response(400, {}, 'Bad Request'));
+
+    await expect(client.request(URL)).rejects.toBeInstanceOf(WebApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(notices).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Web API Client for Dynamics CRM Toolkit
+ *
+ * Sends every Web API request, retrying responses that only ask us to slow
+ * down, and turns OData error bodies into structured errors
+ */
+
+import { DirectTransport, NoticeListener, WebApiTransport } from './web-api-transport';
+
+export interface InnerError {
+  message: string;
+  type?: string;
+  stacktrace?: string;
+}
+
+export class WebApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    // Dataverse error code, such as 0x80040217
+    public code?: string,
+    public innerError?: InnerError
+  ) {
+    super(message);
+    this.name = 'WebApiError';
+  }
+}
+
+// Throttled by service protection limits, or briefly unavailable
+const RETRY_STATUSES = [429, 503];
+
+// Including the first request
+const MAX_ATTEMPTS = 5;
+
+// Doubled on every retry that comes without a Retry-After header
+const BASE_RETRY_DELAY = 1000;
+
+export class WebApiClient {
+  private transport: WebApiTransport = new DirectTransport();
+  private onNotice?: NoticeListener;
+
+  /**
+   * Choose how requests reach the Web API; requests are sent directly until set
+   */
+  setTransport(transport: WebApiTransport): void {
+    this.transport = transport;
+    this.transport.onNotice = this.onNotice;
+  }
+
+  /**
+   * Report retries and transport fallbacks, which otherwise only show as a slow request
+   */
+  setNoticeListener(listener: NoticeListener): void {
+    this.onNotice = listener;
+    this.transport.onNotice = listener;
+  }
+
+  /**
+   * Send a request with the user's session, retrying throttled responses.
+   * Throws a WebApiError for any other failed response.
+   */
+  async request(url: string, init: RequestInit = {}): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.transport.send(url, init);
+
+      if (response.ok) {
+        return response;
+      }
+
+      if (!RETRY_STATUSES.includes(response.status) || attempt + 1 >= MAX_ATTEMPTS) {
+        throw this.createError(response.status, await response.text());
+      }
+
+      const delay = this.getRetryDelay(response, attempt);
+      this.onNotice?.(`Web API returned ${response.status}, retrying in ${Math.round(delay / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Read an OData error body, falling back to the raw text
+   */
+  createError(status: number, body: string): WebApiError {
+    try {
+      const error = JSON.parse(body).error;
+      if (error?.message) {
+        const inner = error.innererror;
+        return new WebApiError(
+          error.message,
+          status,
+          error.code,
+          inner?.message ? { message: inner.message, type: inner.type, stacktrace: inner.stacktrace } : undefined
+        );
+      }
+    } catch (e) {
+      // Not JSON, e.g. a gateway error page
+    }
+    return new WebApiError(`HTTP error ${status}${body ? `: ${body}` : ''}`, status);
+  }
+
+  // Retry-After holds either seconds or an HTTP date
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!isNaN(delay)) {
+        return Math.max(0, delay);
+      }
+    }
+
+    // Jitter keeps parallel requests from retrying in lockstep
+    return BASE_RETRY_DELAY * 2 ** attempt + Math.random() * BASE_RETRY_DELAY;
+  }
+}
+
+export default new WebApiClient();
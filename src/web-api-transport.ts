@@ -0,0 +1,125 @@
+/**
+ * Web API Transports for Dynamics CRM Toolkit
+ *
+ * Gets requests to the Web API, either straight from the extension page with
+ * the user's cookies or relayed through the content script of a Dynamics tab
+ */
+
+/**
+ * Receives messages about how requests are getting through, such as a
+ * throttled request waiting to be retried, for a page to show
+ */
+export type NoticeListener = (message: string) => void;
+
+export interface WebApiTransport {
+  send(url: string, init: RequestInit): Promise<Response>;
+  // Set by WebApiClient to pass on the page's listener
+  onNotice?: NoticeListener;
+}
+
+/**
+ * A request passed to the content script, which can only receive plain data
+ */
+export interface RelayedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface RelayedResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: string;
+}
+
+// Statuses a Response cannot be constructed with a body for
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+export class DirectTransport implements WebApiTransport {
+  send(url: string, init: RequestInit): Promise<Response> {
+    return fetch(url, { credentials: 'include', ...init });
+  }
+}
+
+/**
+ * Sends requests from the Dynamics page itself, so they count as first-party
+ * even where the browser blocks the extension's cookies. Falls back to a
+ * direct request when the tab has been closed or reloaded.
+ */
+export class ContentScriptTransport implements WebApiTransport {
+  onNotice?: NoticeListener;
+  private fallback = new DirectTransport();
+
+  constructor(private tabId: number) {}
+
+  send(url: string, init: RequestInit): Promise<Response> {
+    const request: RelayedRequest = {
+      url,
+      method: init.method || 'GET',
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: typeof init.body === 'string' ? init.body : undefined
+    };
+
+    return new Promise((resolve, reject) => {
+      chrome.tabs.sendMessage(this.tabId, { action: 'webApiRequest', request }, (response) => {
+        if (chrome.runtime.lastError || !response) {
+          this.onNotice?.('Dynamics tab not reachable, sending the request directly');
+          this.fallback.send(url, init).then(resolve, reject);
+        } else if (response.error) {
+          reject(new Error(response.error));
+        } else {
+          const relayed: RelayedResponse = response.response;
+          resolve(new Response(NULL_BODY_STATUSES.includes(relayed.status) ? null : relayed.body, {
+            status: relayed.status,
+            statusText: relayed.statusText,
+            headers: relayed.headers
+          }));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Send a relayed request from the content script
+ */
+export async function relayRequest(request: RelayedRequest): Promise<RelayedResponse> {
+  const response = await new DirectTransport().send(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Array.from(response.headers.entries()),
+    body: await response.text()
+  };
+}
+
+/**
+ * Relay through an open tab of the organization when there is one,
+ * otherwise send requests directly
+ */
+export async function connectTransport(orgUrl: string): Promise<WebApiTransport> {
+  const tabs = await chrome.tabs.query({ url: `${orgUrl}/*` });
+
+  for (const tab of tabs) {
+    if (tab.id !== undefined && await isContentScriptLoaded(tab.id)) {
+      return new ContentScriptTransport(tab.id);
+    }
+  }
+
+  return new DirectTransport();
+}
+
+function isContentScriptLoaded(tabId: number): Promise<boolean> {
+  return new Promise(resolve => {
+    chrome.tabs.sendMessage(tabId, { action: 'ping' }, (response) => {
+      resolve(!chrome.runtime.lastError && response?.status === 'ok');
+    });
+  });
+}